@@ -1,392 +1,684 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Volume2, RotateCcw, Play, Pause, Settings, Zap, Save, X, Home, Trophy, Info } from 'lucide-react';
-
-interface Position {
-  x: number;
-  y: number;
-}
-
-interface Obstacle {
-  id: number;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  revealed: boolean;
-  revealTimer: number;
-}
-
-interface Echo {
-  id: number;
-  x: number;
-  y: number;
-  radius: number;
-  maxRadius: number;
-  opacity: number;
-  speed: number;
-}
-
-type Difficulty = 'easy' | 'medium' | 'hard' | 'nightmare';
-type GameMode = 'limited' | 'infinite';
-
-interface DifficultySettings {
-  echoCount: number;
-  echoInterval: number;
-  echoMaxRadius: number;
-  echoSpeed: number;
-  echoRevealDuration: number;
-  waveOpacityDecay: number;
-  obstacleSpawnRate: number;
-  gameSpeedMultiplier: number;
-}
-
-interface GameSettings {
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Volume2, RotateCcw, Play, Pause, Settings, Zap, Save, X, Home, Trophy, Info, CalendarDays, Film, ShieldCheck, ShieldAlert, Maximize, Minimize, Flag, Timer, ChevronRight, PencilRuler, Award, Users, Headphones, Languages } from 'lucide-react';
+import { SonarAudio } from './audio/SonarAudio';
+import { WORLD_HEIGHT, WORLD_WIDTH, PLAYER_SIZE, DIFFICULTY_SETTINGS, FIXED_STEP_MS, REFERENCE_FRAME_MS } from './game/constants';
+import { ECHO_KINDS, ECHO_TYPES } from './game/echoes';
+import { createGameState, getPingCooldownProgress, interpolateState, SIMULATION_VERSION, step } from './game/engine';
+import { decodeGhost, encodeGhost, getGhostY, GHOST_SAMPLE_MS } from './game/ghost';
+import type { GhostRun } from './game/ghost';
+import { startFixedStepLoop } from './game/loop';
+import { isSolid } from './game/obstacles';
+import { PICKUP_SIZE } from './game/powerUps';
+import { formatSeed, getDailyKey, getDailySeed, randomSeed } from './game/rng';
+import { buildReplayTimeline, encodeInputs, getReplayState, packInput, REPLAY_VERSION, stepReplay } from './game/replay';
+import type { ReplayTimeline } from './game/replay';
+import { InputManager } from './input/InputManager';
+import type { BindableAction, KeyBindings } from './input/InputManager';
+import { getBindingLabel } from './input/keyLabels';
+import { GameCanvas } from './components/GameCanvas';
+import { TouchControls } from './components/TouchControls';
+import { ControlsSettings } from './components/ControlsSettings';
+import { CustomDifficultyEditor } from './components/CustomDifficultyEditor';
+import { LevelEditor } from './components/LevelEditor';
+import { LevelSelect } from './components/LevelSelect';
+import { PowerUpHud } from './components/PowerUpHud';
+import { Overlay } from './components/Overlay';
+import { RaceMode } from './components/RaceMode';
+import { ToggleSwitch } from './components/ToggleSwitch';
+import { COLOR_PALETTES, getPalette } from './render/palettes';
+import { RunBreakdown } from './components/RunBreakdown';
+import { AchievementsScreen, AchievementToast } from './components/Achievements';
+import { commitRun, findNewUnlocks, NO_ACHIEVEMENT_PROGRESS, unlockAchievements } from './game/achievements';
+import type { Achievement, AchievementProgress, AchievementRun } from './game/achievements';
+import { BUNDLED_LEVELS, PRACTICE_LEVEL } from './levels';
+import { formatDuration, RUN_HISTORY_LIMIT, toRunRecord } from './game/stats';
+import type { RunRecord } from './game/stats';
+import { DEFAULT_SETTINGS, load, rankHighScores, save } from './storage/gameStorage';
+import type { GameSettings, HighScore } from './storage/gameStorage';
+import { createEmptyLevel, getLevelProgress, getLevelSettings } from './game/levels';
+import type { Level, LevelRecord } from './game/levels';
+import { DIFFICULTY_PRESETS, isSameDifficulty, resolveDifficultySettings } from './game/difficulty';
+import type { GameEvent, GameState } from './game/engine';
+import type { Difficulty, DifficultySettings, EchoKind, GameMode, PowerUpKind } from './game/types';
+import { createI18n, detectLocale, I18nContext, LOCALE_NAMES, LOCALES } from './i18n';
+import type { Locale } from './i18n';
+
+interface RunOptions {
   difficulty: Difficulty;
+  customSettings?: DifficultySettings;
   gameMode: GameMode;
-  soundEnabled: boolean;
+  // Fixed course seed; each run picks a fresh one when missing
+  seed?: number;
+  daily?: string;
+  // Course for 'levels' mode
+  level?: Level;
+  // Playtesting from the level editor, starting this far into the course
+  playtestFrom?: number;
+  // Obstacles are never drawn, only heard
+  audioOnly?: boolean;
 }
 
-interface HighScore {
-  score: number;
-  
-  difficulty: Difficulty;
-  gameMode: GameMode;
-  date: string;
+// Outcome of the last level attempt, for the results screen
+interface LevelResult {
+  timeMs: number;
+  // Best time before this attempt
+  previousBestMs: number | null;
 }
 
-const GAME_WIDTH = 800;
-const GAME_HEIGHT = 400;
-const PLAYER_SIZE = 20;
-const OBSTACLE_WIDTH = 30;
-const OBSTACLE_HEIGHT = 60;
-
-const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
-  easy: {
-    echoCount: 8,
-    echoInterval: 800,
-    echoMaxRadius: 180,
-    echoSpeed: 2,
-    echoRevealDuration: 4000,
-    waveOpacityDecay: 0.015,
-    obstacleSpawnRate: 0.2,
-    gameSpeedMultiplier: 0.8
-  },
-  medium: {
-    echoCount: 5,
-    echoInterval: 1200,
-    echoMaxRadius: 140,
-    echoSpeed: 2.5,
-    echoRevealDuration: 3000,
-    waveOpacityDecay: 0.02,
-    obstacleSpawnRate: 0.3,
-    gameSpeedMultiplier: 1.0
-  },
-  hard: {
-    echoCount: 3,
-    echoInterval: 1800,
-    echoMaxRadius: 100,
-    echoSpeed: 3,
-    echoRevealDuration: 2000,
-    waveOpacityDecay: 0.025,
-    obstacleSpawnRate: 0.4,
-    gameSpeedMultiplier: 1.3
-  },
-  nightmare: {
-    echoCount: 2,
-    echoInterval: 2500,
-    echoMaxRadius: 80,
-    echoSpeed: 4,
-    echoRevealDuration: 1500,
-    waveOpacityDecay: 0.03,
-    obstacleSpawnRate: 0.5,
-    gameSpeedMultiplier: 1.6
-  }
+// Custom runs only compete with runs that used exactly the same parameters
+const isSameSettings = (difficulty: Difficulty, a?: DifficultySettings, b?: DifficultySettings) =>
+  difficulty !== 'custom' || (!!a && !!b && isSameDifficulty(a, b));
+
+const isSameRunType = (score: HighScore, options: RunOptions) =>
+  !!score.audioOnly === !!options.audioOnly &&
+  score.difficulty === options.difficulty &&
+  score.gameMode === options.gameMode &&
+  isSameSettings(options.difficulty, score.customSettings, options.customSettings);
+
+const REPLAY_SPEEDS = [1, 2, 4];
+// The canvas redraws every frame; the React HUD only needs a few updates a second
+const HUD_UPDATE_MS = 100;
+const ECHO_BUTTON_CLASSES: Record<EchoKind, string> = {
+  ping: 'bg-blue-600 hover:bg-blue-700',
+  cone: 'bg-emerald-600 hover:bg-emerald-700',
+  pulse: 'bg-purple-600 hover:bg-purple-700'
 };
 
+// How long a collected power-up is announced in the HUD
+const PICKUP_NOTICE_MS = 1500;
+// Screen readers hear the score each time it passes a multiple of this
+const SCORE_ANNOUNCE_STEP = 1000;
+
 function App() {
-  const [gameState, setGameState] = useState<'menu' | 'settings' | 'playing' | 'paused' | 'gameOver' | 'highScores' | 'tutorial'>('menu');
-  const [settings, setSettings] = useState<GameSettings>({
-    difficulty: 'medium',
-    gameMode: 'limited',
-    soundEnabled: true
-  });
+  const [gameState, setGameState] = useState<'menu' | 'settings' | 'playing' | 'paused' | 'gameOver' | 'highScores' | 'tutorial' | 'replay' | 'levelSelect' | 'editor' | 'achievements' | 'race'>('menu');
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
   const [tempSettings, setTempSettings] = useState<GameSettings>(settings);
-  const [playerPos, setPlayerPos] = useState<Position>({ x: 100, y: GAME_HEIGHT / 2 });
-  const [obstacles, setObstacles] = useState<Obstacle[]>([]);
-  const [echoes, setEchoes] = useState<Echo[]>([]);
-  const [score, setScore] = useState(0);
-  const [pingsRemaining, setPingsRemaining] = useState(5);
-  const [lastPingTime, setLastPingTime] = useState(0);
-  const [gameSpeed, setGameSpeed] = useState(2);
+  const [game, setGame] = useState<GameState>(() => createGameState({
+    settings: DIFFICULTY_SETTINGS.medium,
+    mode: DEFAULT_SETTINGS.gameMode,
+    seed: 0
+  }));
+  const [runOptions, setRunOptions] = useState<RunOptions>({
+    difficulty: DEFAULT_SETTINGS.difficulty,
+    gameMode: DEFAULT_SETTINGS.gameMode
+  });
   const [collisionFlash, setCollisionFlash] = useState(false);
+  // The personal best being raced, and its score
+  const [ghost, setGhost] = useState<{ run: GhostRun; score: number } | null>(null);
+  const [pickupNotice, setPickupNotice] = useState<{ kind: PowerUpKind; time: number } | null>(null);
+  // Read out by screen readers through a live region
+  const [announcement, setAnnouncement] = useState('');
+  const [showSoundRequired, setShowSoundRequired] = useState(false);
   const [highScores, setHighScores] = useState<HighScore[]>([]);
+  // Which board the high scores screen shows
+  const [audioOnlyBoard, setAudioOnlyBoard] = useState(false);
   const [settingsChanged, setSettingsChanged] = useState(false);
   const [showExitConfirm, setShowExitConfirm] = useState(false);
+  const [replayView, setReplayView] = useState<{ entry: HighScore; timeline: ReplayTimeline } | null>(null);
+  const [replayTick, setReplayTick] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [levelRecords, setLevelRecords] = useState<Record<string, LevelRecord>>({});
+  const [levelResult, setLevelResult] = useState<LevelResult | null>(null);
+  const [runHistory, setRunHistory] = useState<RunRecord[]>([]);
+  const [achievementProgress, setAchievementProgress] = useState<AchievementProgress>(NO_ACHIEVEMENT_PROGRESS);
+  const [achievementToasts, setAchievementToasts] = useState<Achievement[]>([]);
+  const [editorLevel, setEditorLevel] = useState<Level>(createEmptyLevel);
+  const [editorScroll, setEditorScroll] = useState(0);
   
-  const gameLoopRef = useRef<number>();
-  const keysRef = useRef<Set<string>>(new Set());
-  const obstacleIdRef = useRef(0);
-  const echoIdRef = useRef(0);
+  const gameRef = useRef<GameState>(game);
+  const previousGameRef = useRef<GameState>(game);
+  const renderStateRef = useRef<GameState>(game);
+  const lastHudUpdateRef = useRef(0);
+  const pingQueuedRef = useRef<EchoKind | null>(null);
+  const inputLogRef = useRef<number[]>([]);
+  // Player heights every GHOST_SAMPLE_MS, saved as the ghost if the run is a new best
+  const ghostPathRef = useRef<number[]>([]);
+  const replayTickRef = useRef(0);
+  const gameContainerRef = useRef<HTMLDivElement>(null);
+  const [audio] = useState(() => new SonarAudio());
+  const [controls] = useState(() => new InputManager());
+  const [usesTouch, setUsesTouch] = useState(() => window.matchMedia?.('(pointer: coarse)').matches ?? false);
+
+  const i18n = useMemo(
+    () => createI18n(settings.language === 'auto' ? detectLocale() : settings.language),
+    [settings.language]
+  );
+  const { t, formatNumber, formatPercent, formatLevelTime, formatMultiplier, formatDate, levelName } = i18n;
+
+  const score = game.score;
+  // Score only counts time, so a run is level with its ghost until the ghost's run ends
+  const ghostRunning = !!ghost && getGhostY(ghost.run, game.time) !== null;
+  // Earlier runs on the same course settings, for the breakdown's trends
+  const comparableRuns = runHistory.filter(run =>
+    !!run.audioOnly === !!runOptions.audioOnly &&
+    (runOptions.level
+      ? run.levelId === runOptions.level.id
+      : !run.levelId &&
+        run.mode === runOptions.gameMode &&
+        run.difficulty === runOptions.difficulty &&
+        isSameSettings(runOptions.difficulty, run.customSettings, runOptions.customSettings))
+  );
 
-  const currentSettings = DIFFICULTY_SETTINGS[settings.difficulty];
+  const getRenderState = useCallback(() => renderStateRef.current, []);
 
-  useEffect(() => {
-    const savedSettings = localStorage.getItem('echoRunnerSettings');
-    const savedHighScores = localStorage.getItem('echoRunnerHighScores');
-    
-    if (savedSettings) {
-      const parsed = JSON.parse(savedSettings);
-      setSettings(parsed);
-      setTempSettings(parsed);
+  // Hands a state to the canvas, and to the HUD at most every HUD_UPDATE_MS.
+  // Returns whether the HUD was updated.
+  const presentFrame = useCallback((state: GameState, force = false) => {
+    renderStateRef.current = state;
+    const now = performance.now();
+    if (!force && state.status === 'running' && now - lastHudUpdateRef.current < HUD_UPDATE_MS) {
+      return false;
     }
-    
-    if (savedHighScores) {
-      setHighScores(JSON.parse(savedHighScores));
+    lastHudUpdateRef.current = now;
+    setGame(state);
+    return true;
+  }, []);
+
+  useEffect(() => {
+    const savedSettings = load('settings');
+    setSettings(savedSettings);
+    setTempSettings(savedSettings);
+    setHighScores(load('highScores'));
+    setLevelRecords(load('levelRecords'));
+    setRunHistory(load('runHistory'));
+    setAchievementProgress(load('achievements'));
+    const draft = load('levelDraft');
+    if (draft) {
+      setEditorLevel(draft);
     }
   }, []);
 
+  // The editor keeps its work between visits
+  const updateEditorLevel = useCallback((level: Level) => {
+    setEditorLevel(level);
+    save('levelDraft', level);
+  }, []);
+
+  useEffect(() => {
+    audio.setEnabled(settings.soundEnabled);
+    audio.setVolume(settings.volume);
+  }, [audio, settings.soundEnabled, settings.volume]);
+
+  useEffect(() => {
+    controls.setBindings(settings.keyBindings);
+  }, [controls, settings.keyBindings]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.locale;
+  }, [i18n.locale]);
+
   const saveSettings = useCallback(() => {
-    localStorage.setItem('echoRunnerSettings', JSON.stringify(tempSettings));
+    save('settings', tempSettings);
     setSettings(tempSettings);
     setSettingsChanged(false);
   }, [tempSettings]);
 
   const saveHighScore = useCallback((finalScore: number) => {
+    const seed = gameRef.current.config.seed;
     const newScore: HighScore = {
       score: finalScore,
-      difficulty: settings.difficulty,
-      gameMode: settings.gameMode,
-      date: new Date().toLocaleDateString()
+      difficulty: runOptions.difficulty,
+      customSettings: runOptions.customSettings,
+      gameMode: runOptions.gameMode,
+      date: new Date().toISOString(),
+      seed,
+      daily: runOptions.daily,
+      audioOnly: runOptions.audioOnly || undefined,
+      replay: {
+        version: REPLAY_VERSION,
+        simulationVersion: SIMULATION_VERSION,
+        seed,
+        difficulty: runOptions.difficulty,
+        customSettings: runOptions.customSettings,
+        gameMode: runOptions.gameMode,
+        ticks: inputLogRef.current.length,
+        inputs: encodeInputs(inputLogRef.current)
+      }
     };
-    
-    const updatedScores = [...highScores, newScore]
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 10); 
-    
+
+    // Only the best run of each kind keeps its ghost
+    const sameType = highScores.filter(entry => isSameRunType(entry, runOptions));
+    const isNewBest = sameType.every(entry => finalScore > entry.score);
+    if (isNewBest) {
+      newScore.ghost = encodeGhost(ghostPathRef.current);
+    }
+    const updatedScores = rankHighScores([
+      ...highScores.map(entry => (isNewBest && entry.ghost && isSameRunType(entry, runOptions) ? { ...entry, ghost: undefined } : entry)),
+      newScore
+    ]);
+
     setHighScores(updatedScores);
-    localStorage.setItem('echoRunnerHighScores', JSON.stringify(updatedScores));
-  }, [settings, highScores]);
+    save('highScores', updatedScores);
+  }, [runOptions, highScores]);
+
+  const saveRunRecord = useCallback((state: GameState) => {
+    const record = toRunRecord(state.stats, {
+      mode: runOptions.gameMode,
+      difficulty: runOptions.difficulty,
+      customSettings: runOptions.customSettings,
+      levelId: runOptions.level?.id,
+      audioOnly: runOptions.audioOnly || undefined,
+      score: state.score
+    });
+    const updatedHistory = [...runHistory, record].slice(-RUN_HISTORY_LIMIT);
+    setRunHistory(updatedHistory);
+    save('runHistory', updatedHistory);
+  }, [runOptions, runHistory]);
+
+  const saveAchievementProgress = useCallback((progress: AchievementProgress) => {
+    setAchievementProgress(progress);
+    save('achievements', progress);
+  }, []);
+
+  const dismissAchievementToast = useCallback((achievement: Achievement) => {
+    setAchievementToasts(prev => prev.filter(toast => toast !== achievement));
+  }, []);
+
+  // Only completions count towards a level's record
+  const saveLevelResult = useCallback((level: Level, state: GameState) => {
+    const record = levelRecords[level.id] ?? { completions: 0, bestTimeMs: null };
+    setLevelResult(state.status === 'finished' ? { timeMs: state.time, previousBestMs: record.bestTimeMs } : null);
+    if (state.status !== 'finished') return;
+
+    const updatedRecords = {
+      ...levelRecords,
+      [level.id]: {
+        completions: record.completions + 1,
+        bestTimeMs: record.bestTimeMs === null ? state.time : Math.min(record.bestTimeMs, state.time)
+      }
+    };
+    setLevelRecords(updatedRecords);
+    save('levelRecords', updatedRecords);
+  }, [levelRecords]);
 
   useEffect(() => {
     const hasChanged = JSON.stringify(settings) !== JSON.stringify(tempSettings);
     setSettingsChanged(hasChanged);
   }, [settings, tempSettings]);
 
-  const initGame = useCallback(() => {
-    setPlayerPos({ x: 100, y: GAME_HEIGHT / 2 });
-    setObstacles([]);
-    setEchoes([]);
-    setScore(0);
-    setPingsRemaining(settings.gameMode === 'infinite' ? 999 : currentSettings.echoCount);
-    setLastPingTime(0);
-    setGameSpeed(2 * currentSettings.gameSpeedMultiplier);
+  const initGame = useCallback((options: RunOptions) => {
+    const fresh = createGameState({
+      settings: options.level
+        ? getLevelSettings(options.level)
+        : resolveDifficultySettings(options.difficulty, options.customSettings),
+      mode: options.gameMode,
+      seed: options.seed ?? randomSeed(),
+      level: options.level,
+      startDistance: options.playtestFrom
+    });
+    setRunOptions(options);
+    const best = options.level || !settings.showGhost
+      ? undefined
+      : highScores.filter(entry => entry.ghost && isSameRunType(entry, options)).sort((a, b) => b.score - a.score)[0];
+    setGhost(best?.ghost ? { run: decodeGhost(best.ghost), score: best.score } : null);
+    ghostPathRef.current = [fresh.player.y];
+    gameRef.current = fresh;
+    previousGameRef.current = fresh;
+    presentFrame(fresh, true);
     setCollisionFlash(false);
-    obstacleIdRef.current = 0;
-    echoIdRef.current = 0;
-  }, [currentSettings, settings.gameMode]);
-
-  const generateObstacle = useCallback((): Obstacle => {
-    return {
-      id: obstacleIdRef.current++,
-      x: GAME_WIDTH + 50,
-      y: Math.random() * (GAME_HEIGHT - OBSTACLE_HEIGHT - 100) + 50,
-      width: OBSTACLE_WIDTH,
-      height: OBSTACLE_HEIGHT,
-      revealed: false,
-      revealTimer: 0
-    };
-  }, []);
+    setPickupNotice(null);
+    pingQueuedRef.current = null;
+    inputLogRef.current = [];
+  }, [presentFrame, highScores, settings.showGhost]);
 
-  const createEcho = useCallback((x: number, y: number) => {
-    const newEcho: Echo = {
-      id: echoIdRef.current++,
-      x,
-      y,
-      radius: 0,
-      maxRadius: currentSettings.echoMaxRadius,
-      opacity: 1,
-      speed: currentSettings.echoSpeed
-    };
-    setEchoes(prev => [...prev, newEcho]);
-  }, [currentSettings]);
-
-  const handlePing = useCallback(() => {
-    const now = Date.now();
-    const canPing = settings.gameMode === 'infinite' || pingsRemaining > 0;
-    const cooldownPassed = now - lastPingTime > currentSettings.echoInterval;
-    
-    if (canPing && cooldownPassed && gameState === 'playing') {
-      createEcho(playerPos.x, playerPos.y);
-      if (settings.gameMode === 'limited') {
-        setPingsRemaining(prev => prev - 1);
-      }
-      setLastPingTime(now);
+  const handlePing = useCallback((kind: EchoKind) => {
+    if (gameState === 'playing') {
+      pingQueuedRef.current = kind;
     }
-  }, [pingsRemaining, lastPingTime, playerPos, gameState, createEcho, currentSettings, settings.gameMode]);
-
-  const checkCollisions = useCallback(() => {
-    for (const obstacle of obstacles) {
-      if (
-        playerPos.x + PLAYER_SIZE > obstacle.x &&
-        playerPos.x < obstacle.x + obstacle.width &&
-        playerPos.y + PLAYER_SIZE > obstacle.y &&
-        playerPos.y < obstacle.y + obstacle.height
-      ) {
-        setCollisionFlash(true);
-        setTimeout(() => setCollisionFlash(false), 200);
-        saveHighScore(score);
-        setGameState('gameOver');
-        return true;
+  }, [gameState]);
+
+  // Each echo sounds a return blip once per obstacle it reaches, placed in
+  // the stereo field and pitched by where that obstacle sits. Audio-only
+  // runs place it in 3D instead and hold it back for the trip home, since
+  // the sound is all the player has.
+  const playGameEvents = useCallback((events: GameEvent[], state: GameState, spatial = false) => {
+    for (const event of events) {
+      if (event.type === 'ping') {
+        audio.playPing(event.kind);
+      } else if ((event.type === 'echoHit' || event.type === 'pickupEchoHit') && spatial) {
+        const { echo } = event;
+        const bounds = event.type === 'echoHit'
+          ? event.obstacle
+          : { ...event.pickup, width: PICKUP_SIZE, height: PICKUP_SIZE };
+        const centerX = bounds.x + bounds.width / 2;
+        const centerY = bounds.y + bounds.height / 2;
+        const scale = WORLD_HEIGHT / 2;
+        audio.playSpatialReturn({
+          ahead: (centerX - (state.player.x + PLAYER_SIZE / 2)) / scale,
+          below: (centerY - (state.player.y + PLAYER_SIZE / 2)) / scale,
+          delay: Math.hypot(echo.x - centerX, echo.y - centerY) / (echo.speed / REFERENCE_FRAME_MS) / 1000,
+          kind: event.type === 'pickupEchoHit' ? 'pickup' : isSolid(event.obstacle) ? 'solid' : 'phantom'
+        });
+      } else if (event.type === 'echoHit') {
+        const { echo, obstacle } = event;
+        const centerX = obstacle.x + obstacle.width / 2;
+        const centerY = obstacle.y + obstacle.height / 2;
+        audio.playEchoReturn({
+          pan: (centerX / WORLD_WIDTH) * 2 - 1,
+          verticalOffset: (centerY - (state.player.y + PLAYER_SIZE / 2)) / (WORLD_HEIGHT / 2),
+          distance: Math.hypot(echo.x - centerX, echo.y - centerY) / echo.maxRadius
+        });
+      } else if (event.type === 'collision') {
+        audio.playCollision();
+      } else if (event.type === 'pickup') {
+        audio.playPickup();
+        setPickupNotice({ kind: event.kind, time: state.time });
+      } else if (event.type === 'shieldBreak') {
+        audio.playShieldBreak();
       }
     }
-    return false;
-  }, [playerPos, obstacles, score, saveHighScore]);
+  }, [audio]);
 
-  const gameLoop = useCallback(() => {
+  useEffect(() => {
     if (gameState !== 'playing') return;
 
-    setPlayerPos(prev => {
-      let newY = prev.y;
-      if (keysRef.current.has('ArrowUp') || keysRef.current.has('w')) {
-        newY = Math.max(0, prev.y - 5);
-      }
-      if (keysRef.current.has('ArrowDown') || keysRef.current.has('s')) {
-        newY = Math.min(GAME_HEIGHT - PLAYER_SIZE, prev.y + 5);
+    return startFixedStepLoop({
+      update: () => {
+        const input = {
+          move: controls.getMovement(),
+          ping: pingQueuedRef.current
+        };
+        const next = step(gameRef.current, input, FIXED_STEP_MS);
+        pingQueuedRef.current = null;
+        inputLogRef.current.push(packInput(input));
+        if (next.time >= ghostPathRef.current.length * GHOST_SAMPLE_MS) {
+          ghostPathRef.current.push(next.player.y);
+        }
+        previousGameRef.current = gameRef.current;
+        gameRef.current = next;
+        playGameEvents(next.events, next, runOptions.audioOnly);
+        return next.status === 'running';
+      },
+      render: alpha => {
+        presentFrame(interpolateState(previousGameRef.current, gameRef.current, alpha));
       }
-      return { ...prev, y: newY };
     });
+  }, [gameState, controls, playGameEvents, presentFrame, runOptions.audioOnly]);
 
-    setObstacles(prev => {
-      const moved = prev.map(obstacle => ({
-        ...obstacle,
-        x: obstacle.x - gameSpeed,
-        revealTimer: Math.max(0, obstacle.revealTimer - 16)
-      })).filter(obstacle => obstacle.x > -obstacle.width);
-
-      if (moved.length === 0 || moved[moved.length - 1].x < GAME_WIDTH - 200) {
-        if (Math.random() < currentSettings.obstacleSpawnRate) {
-          moved.push(generateObstacle());
+  useEffect(() => {
+    if (gameState !== 'replay' || !replayView || !replayPlaying) return;
+
+    const { timeline } = replayView;
+    return startFixedStepLoop({
+      update: () => {
+        previousGameRef.current = gameRef.current;
+        for (let i = 0; i < replaySpeed; i++) {
+          const tick = replayTickRef.current;
+          if (tick >= timeline.replay.ticks) {
+            setReplayPlaying(false);
+            return false;
+          }
+          gameRef.current = stepReplay(timeline, gameRef.current, tick);
+          replayTickRef.current = tick + 1;
+          playGameEvents(gameRef.current.events, gameRef.current);
+        }
+        return true;
+      },
+      render: alpha => {
+        const finished = replayTickRef.current >= timeline.replay.ticks;
+        if (presentFrame(interpolateState(previousGameRef.current, gameRef.current, alpha), finished)) {
+          setReplayTick(replayTickRef.current);
         }
       }
-
-      return moved;
     });
+  }, [gameState, replayView, replayPlaying, replaySpeed, playGameEvents, presentFrame]);
 
-    setEchoes(prev => prev.map(echo => ({
-      ...echo,
-      radius: Math.min(echo.radius + echo.speed, echo.maxRadius),
-      opacity: Math.max(0, echo.opacity - currentSettings.waveOpacityDecay)
-    })).filter(echo => echo.opacity > 0));
-
-    setObstacles(prev => prev.map(obstacle => {
-      let revealed = obstacle.revealed;
-      let revealTimer = obstacle.revealTimer;
-
-      echoes.forEach(echo => {
-        const distance = Math.sqrt(
-          Math.pow(echo.x - (obstacle.x + obstacle.width / 2), 2) +
-          Math.pow(echo.y - (obstacle.y + obstacle.height / 2), 2)
-        );
-        if (distance <= echo.radius + 20) {
-          revealed = true;
-          revealTimer = currentSettings.echoRevealDuration;
-        }
-      });
-
-      return { ...obstacle, revealed, revealTimer };
-    }));
-
-    setScore(prev => prev + 1);
+  // Unlocks are announced as soon as the run earns them; progress is only
+  // added up once it's over. Playtests don't count.
+  useEffect(() => {
+    if (gameState !== 'playing' || runOptions.playtestFrom !== undefined) return;
 
-    setGameSpeed(prev => prev + 0.001 * currentSettings.gameSpeedMultiplier);
+    const run: AchievementRun = {
+      stats: game.stats,
+      mode: runOptions.gameMode,
+      difficulty: runOptions.difficulty,
+      finished: game.status === 'finished'
+    };
+    if (game.status !== 'running') {
+      saveAchievementProgress(commitRun(achievementProgress, run));
+    }
+    const unlocks = findNewUnlocks(achievementProgress, run);
+    if (unlocks.length > 0) {
+      if (game.status === 'running') {
+        saveAchievementProgress(unlockAchievements(achievementProgress, unlocks));
+      }
+      setAchievementToasts(prev => [...prev, ...unlocks]);
+    }
+  }, [game, gameState, runOptions, achievementProgress, saveAchievementProgress]);
 
-    if (settings.gameMode === 'limited' && score > 0 && score % 800 === 0) {
-      setPingsRemaining(prev => Math.min(currentSettings.echoCount, prev + 1));
+  useEffect(() => {
+    if (gameState === 'playing' && game.status !== 'running') {
+      if (game.status === 'over') {
+        setCollisionFlash(true);
+        setTimeout(() => setCollisionFlash(false), 200);
+      }
+      if (runOptions.playtestFrom !== undefined) {
+        setLevelResult(null);
+      } else if (runOptions.level) {
+        saveLevelResult(runOptions.level, game);
+        saveRunRecord(game);
+      } else {
+        saveHighScore(game.score);
+        saveRunRecord(game);
+      }
+      setGameState('gameOver');
     }
+  }, [game, gameState, runOptions.level, runOptions.playtestFrom, saveHighScore, saveLevelResult, saveRunRecord]);
 
-    gameLoopRef.current = requestAnimationFrame(gameLoop);
-  }, [gameState, echoes, gameSpeed, score, generateObstacle, currentSettings, settings.gameMode]);
+  useEffect(() => {
+    if (gameState === 'playing' && runOptions.gameMode !== 'infinite') {
+      setAnnouncement(t.announcements.pingsLeft(game.pingsRemaining, formatNumber(game.pingsRemaining)));
+    }
+  }, [gameState, runOptions.gameMode, game.pingsRemaining, t, formatNumber]);
 
+  const scoreMilestone = Math.floor(game.score / SCORE_ANNOUNCE_STEP);
   useEffect(() => {
-    if (gameState === 'playing') {
-      gameLoopRef.current = requestAnimationFrame(gameLoop);
+    if (gameState === 'playing' && !runOptions.level && scoreMilestone > 0) {
+      setAnnouncement(t.announcements.score(formatNumber(scoreMilestone * SCORE_ANNOUNCE_STEP)));
     }
-    return () => {
-      if (gameLoopRef.current) {
-        cancelAnimationFrame(gameLoopRef.current);
-      }
-    };
-  }, [gameState, gameLoop]);
+  }, [gameState, runOptions.level, scoreMilestone, t, formatNumber]);
 
   useEffect(() => {
-    if (gameState === 'playing') {
-      checkCollisions();
+    if (pickupNotice) {
+      setAnnouncement(t.announcements.pickedUp(t.powerUps[pickupNotice.kind]));
     }
-  }, [playerPos, checkCollisions, gameState]);
+  }, [pickupNotice, t]);
+
+  useEffect(() => {
+    if (gameState !== 'gameOver') return;
+    setAnnouncement(
+      game.status === 'finished'
+        ? t.announcements.levelComplete(formatLevelTime(game.time))
+        : t.announcements.gameOver(formatNumber(game.score))
+    );
+  }, [gameState, game.status, game.time, game.score, t, formatNumber, formatLevelTime]);
+
+  // Menus take the keys for moving between and pressing buttons. The race
+  // screen decides this for itself.
+  useEffect(() => {
+    if (gameState === 'race') return;
+    controls.setMenuOpen(!['playing', 'replay', 'editor'].includes(gameState) || showExitConfirm);
+  }, [controls, gameState, showExitConfirm]);
+
+  useEffect(() => controls.attach(), [controls]);
 
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      keysRef.current.add(e.key);
-      if (e.key === ' ' || e.key === 'Spacebar') {
-        e.preventDefault();
-        handlePing();
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'touch') {
+        setUsesTouch(true);
       }
-      if (e.key === 'Escape') {
-        e.preventDefault();
-        if (gameState === 'playing' || gameState === 'paused') {
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, []);
+
+  useEffect(() => {
+    return controls.onAction(action => {
+      if (action === 'ping' && gameState === 'replay') {
+        setReplayPlaying(prev => !prev);
+      } else if (action === 'ping' || action === 'cone' || action === 'pulse') {
+        handlePing(action);
+      }
+      if (action === 'pause') {
+        if (gameState === 'replay') {
+          setGameState('highScores');
+        } else if (gameState === 'playing' || gameState === 'paused') {
           if (gameState === 'playing') {
             setGameState('paused');
           } else {
             setGameState('playing');
           }
-        } else if (gameState === 'settings' || gameState === 'highScores' || gameState === 'tutorial') {
+        } else if (['settings', 'highScores', 'achievements', 'tutorial', 'levelSelect', 'editor'].includes(gameState)) {
           setGameState('menu');
         }
       }
-      if (e.key === 'q' || e.key === 'Q') {
-        e.preventDefault();
+      if (action === 'quit') {
         if (gameState === 'playing' || gameState === 'paused') {
           setShowExitConfirm(true);
         } else if (gameState !== 'menu') {
           setGameState('menu');
         }
       }
-    };
+    });
+  }, [controls, handlePing, gameState]);
+
+  // Run options for the difficulty and mode chosen in Settings
+  const settingsRunOptions: RunOptions = {
+    difficulty: settings.difficulty,
+    customSettings: settings.difficulty === 'custom' ? settings.customDifficulty : undefined,
+    gameMode: settings.gameMode,
+    audioOnly: settings.audioOnly
+  };
 
-    const handleKeyUp = (e: KeyboardEvent) => {
-      keysRef.current.delete(e.key);
-    };
+  // An audio-only run with no sound is a blank, silent screen, so it waits
+  // until the player turns sound back on
+  const startRun = (options: RunOptions) => {
+    if (options.audioOnly && (!settings.soundEnabled || settings.volume === 0)) {
+      setShowSoundRequired(true);
+      return;
+    }
+    setShowSoundRequired(false);
+    initGame(options);
+    setGameState('playing');
+  };
 
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
+  const startGame = () => {
+    startRun(settingsRunOptions);
+  };
 
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, [handlePing, gameState]);
+  const startDailyChallenge = () => {
+    const daily = getDailyKey();
+    startRun({ ...settingsRunOptions, seed: getDailySeed(daily), daily });
+  };
 
-  const startGame = () => {
-    initGame();
-    setGameState('playing');
+  const playCourse = (entry: HighScore) => {
+    startRun({
+      difficulty: entry.difficulty,
+      customSettings: entry.customSettings,
+      gameMode: entry.gameMode,
+      seed: entry.seed,
+      daily: entry.daily,
+      audioOnly: entry.audioOnly
+    });
+  };
+
+  const startLevel = (level: Level) => {
+    startRun({ difficulty: settings.difficulty, gameMode: 'levels', level, audioOnly: settings.audioOnly });
   };
 
+  const startPractice = () => {
+    startRun({ difficulty: settings.difficulty, gameMode: 'levels', level: PRACTICE_LEVEL, audioOnly: true });
+  };
+
+  const startPlaytest = useCallback((level: Level, fromDistance: number) => {
+    initGame({ difficulty: settings.difficulty, gameMode: 'levels', level, playtestFrom: fromDistance });
+    setGameState('playing');
+  }, [initGame, settings.difficulty]);
+
+  const returnToMenu = useCallback(() => setGameState('menu'), []);
+
+  const raceSettings = useMemo(
+    () => resolveDifficultySettings(settings.difficulty, settings.difficulty === 'custom' ? settings.customDifficulty : undefined),
+    [settings.difficulty, settings.customDifficulty]
+  );
+
+  const palette = useMemo(
+    () => getPalette(settings.colorPalette, settings.highContrast),
+    [settings.colorPalette, settings.highContrast]
+  );
+
+  const levelIndex = BUNDLED_LEVELS.findIndex(level => level.id === runOptions.level?.id);
+  const nextLevel = levelIndex !== -1 && runOptions.playtestFrom === undefined ? BUNDLED_LEVELS[levelIndex + 1] : undefined;
+
   const togglePause = () => {
     setGameState(prev => prev === 'playing' ? 'paused' : 'playing');
   };
 
+  const seekReplay = (timeline: ReplayTimeline, tick: number) => {
+    const state = getReplayState(timeline, tick);
+    gameRef.current = state;
+    previousGameRef.current = state;
+    replayTickRef.current = Math.min(tick, timeline.replay.ticks);
+    setReplayTick(replayTickRef.current);
+    presentFrame(state, true);
+  };
+
+  const openReplay = (entry: HighScore) => {
+    if (!entry.replay) return;
+    const timeline = buildReplayTimeline(entry.replay);
+    setReplayView({ entry, timeline });
+    seekReplay(timeline, 0);
+    setReplaySpeed(1);
+    setReplayPlaying(true);
+    setGameState('replay');
+  };
+
+  const toggleReplayPlaying = () => {
+    if (!replayView) return;
+    if (!replayPlaying && replayTickRef.current >= replayView.timeline.replay.ticks) {
+      seekReplay(replayView.timeline, 0);
+    }
+    setReplayPlaying(prev => !prev);
+  };
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(document.fullscreenElement !== null && document.fullscreenElement === gameContainerRef.current);
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      void document.exitFullscreen();
+    } else {
+      void gameContainerRef.current?.requestFullscreen();
+    }
+  };
+
   const restartGame = () => {
-    initGame();
-    setGameState('playing');
+    startRun(runOptions);
   };
 
+  const updateKeyBindings = useCallback((keyBindings: KeyBindings) => {
+    setTempSettings(prev => ({ ...prev, keyBindings }));
+  }, []);
+
+  const keyHint = (action: BindableAction) => getBindingLabel(settings.keyBindings, action);
+
   const resetSettings = () => {
-    const defaultSettings: GameSettings = {
-      difficulty: 'medium',
-      gameMode: 'limited',
-      soundEnabled: true
-    };
-    setTempSettings(defaultSettings);
+    setTempSettings(DEFAULT_SETTINGS);
+  };
+
+  // Menu buttons click; in-game controls already have their own sounds.
+  const handleUiClick = (e: React.MouseEvent) => {
+    if (gameState === 'playing') return;
+    if ((e.target as HTMLElement).closest('button')) {
+      audio.playClick();
+    }
   };
 
   const getDifficultyColor = (diff: Difficulty) => {
@@ -394,29 +686,27 @@ function App() {
       easy: 'text-green-400',
       medium: 'text-yellow-400',
       hard: 'text-orange-400',
-      nightmare: 'text-red-400'
+      nightmare: 'text-red-400',
+      custom: 'text-cyan-400'
     };
     return colors[diff];
   };
 
-  const getPingCooldownProgress = () => {
-    const timeSinceLastPing = Date.now() - lastPingTime;
-    const progress = Math.min(timeSinceLastPing / currentSettings.echoInterval, 1);
-    return progress;
-  };
 
-  const getBestScore = () => {
+  const getBestScore = (options: RunOptions = settingsRunOptions) => {
     return highScores
-      .filter(score => score.difficulty === settings.difficulty && score.gameMode === settings.gameMode)
+      .filter(score => isSameRunType(score, options))
       .reduce((best, current) => current.score > best ? current.score : best, 0);
   };
 
+  const boardScores = highScores.filter(score => !!score.audioOnly === audioOnlyBoard);
+
   const handleExitToMenu = () => {
-    if (gameState === 'playing' || gameState === 'paused') {
-      saveHighScore(score);
+    if ((gameState === 'playing' || gameState === 'paused') && !runOptions.level) {
+      saveHighScore(gameRef.current.score);
     }
     setShowExitConfirm(false);
-    setGameState('menu');
+    setGameState(runOptions.playtestFrom !== undefined ? 'editor' : 'menu');
   };
 
   const cancelExit = () => {
@@ -427,555 +717,1041 @@ function App() {
   };
 
   return (
-    <div className="min-h-screen bg-black text-white flex flex-col items-center justify-center p-4">
-      <div className="max-w-4xl w-full">
-        <div className="text-center mb-6">
-          <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent mb-2">
-            Echo Runner
-          </h1>
-          <p className="text-gray-400">Navigate the dark world using sound echoes</p>
+    <I18nContext.Provider value={i18n}>
+      <div
+        className={`min-h-screen bg-black text-white flex flex-col items-center justify-center p-4 ${
+          settings.highContrast ? 'high-contrast' : ''
+        } ${settings.reducedMotion ? 'reduce-motion' : ''}`}
+        onClickCapture={handleUiClick}
+      >
+        <div className="sr-only" role="status" aria-live="polite">
+          {announcement}
         </div>
-
-        <div className="relative mx-auto bg-gray-900 rounded-lg overflow-hidden border border-gray-700">
-          <div 
-            className="relative"
-            style={{ width: GAME_WIDTH, height: GAME_HEIGHT }}
-          >
-            <div 
-              className={`absolute inset-0 bg-black transition-all duration-200 ${
-                collisionFlash ? 'bg-red-500 bg-opacity-30' : ''
-              }`}
-            >
-              <div
-                className="absolute bg-blue-400 rounded-full shadow-lg shadow-blue-400/50 transition-all duration-75"
-                style={{
-                  left: playerPos.x,
-                  top: playerPos.y,
-                  width: PLAYER_SIZE,
-                  height: PLAYER_SIZE,
-                  boxShadow: '0 0 20px rgba(59, 130, 246, 0.6)'
+        <div
+          ref={gameContainerRef}
+          className={isFullscreen ? 'w-full h-screen flex flex-col bg-black p-2' : 'max-w-4xl w-full'}
+        >
+          {!isFullscreen && (
+            <div className="text-center mb-6">
+              <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent mb-2">
+                {t.app.title}
+              </h1>
+              <p className="text-gray-400">{t.app.tagline}</p>
+            </div>
+          )}
+
+          {showSoundRequired && gameState !== 'playing' && (
+            <div role="alert" className="mb-4 bg-yellow-900/60 border border-yellow-600 rounded-lg px-4 py-3 text-sm flex items-center gap-3">
+              <Volume2 size={18} className="shrink-0 text-yellow-300" />
+              <p className="flex-1">{t.soundRequired.message}</p>
+              <button
+                onClick={() => {
+                  setShowSoundRequired(false);
+                  setGameState('settings');
                 }}
+                className="bg-yellow-700 hover:bg-yellow-600 px-3 py-1 rounded font-semibold"
+              >
+                {t.soundRequired.openSettings}
+              </button>
+              <button
+                onClick={() => setShowSoundRequired(false)}
+                aria-label={t.soundRequired.dismiss}
+                className="text-yellow-200 hover:text-white"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          )}
+
+          {gameState === 'editor' && (
+            <LevelEditor
+              level={editorLevel}
+              scroll={editorScroll}
+              onChange={updateEditorLevel}
+              onScrollChange={setEditorScroll}
+              onPlaytest={startPlaytest}
+              onClose={returnToMenu}
+            />
+          )}
+
+          {gameState === 'race' && (
+            <RaceMode
+              settings={raceSettings}
+              mode={settings.gameMode === 'infinite' ? 'infinite' : 'limited'}
+              controls={controls}
+              audio={audio}
+              partialReveal={settings.partialReveal}
+              palette={palette}
+              reducedMotion={settings.reducedMotion}
+              onExit={returnToMenu}
+            />
+          )}
+
+          <div
+            className={`relative mx-auto w-full bg-gray-900 rounded-lg overflow-hidden border border-gray-700 ${
+              isFullscreen ? 'flex-1 min-h-0' : ''
+            } ${gameState === 'editor' || gameState === 'race' ? 'hidden' : ''}`}
+            style={isFullscreen ? undefined : { aspectRatio: `${WORLD_WIDTH} / ${WORLD_HEIGHT}`, minHeight: 320, maxHeight: '75vh' }}
+          >
+            <div className="absolute inset-0">
+              <GameCanvas
+                getState={getRenderState}
+                collisionFlash={collisionFlash && !settings.reducedMotion}
+                partialReveal={settings.partialReveal}
+                palette={palette}
+                reducedMotion={settings.reducedMotion}
+                audioOnly={gameState !== 'replay' && !!runOptions.audioOnly}
+                ghost={gameState === 'replay' ? null : ghost?.run}
               />
 
-              {obstacles.map(obstacle => (
-                <div
-                  key={obstacle.id}
-                  className={`absolute bg-red-500 transition-opacity duration-300 ${
-                    obstacle.revealed && obstacle.revealTimer > 0
-                      ? 'opacity-80 shadow-lg shadow-red-500/50'
-                      : 'opacity-10'
-                  }`}
-                  style={{
-                    left: obstacle.x,
-                    top: obstacle.y,
-                    width: obstacle.width,
-                    height: obstacle.height,
-                    boxShadow: obstacle.revealed && obstacle.revealTimer > 0 
-                      ? '0 0 20px rgba(239, 68, 68, 0.6)' 
-                      : 'none'
-                  }}
-                />
-              ))}
+              {gameState === 'playing' && usesTouch && <TouchControls controls={controls} />}
+
+              <button
+                onClick={toggleFullscreen}
+                title={isFullscreen ? t.app.exitFullscreen : t.app.fullscreen}
+                aria-label={isFullscreen ? t.app.exitFullscreen : t.app.fullscreen}
+                className="absolute top-2 right-2 z-40 text-gray-500 hover:text-white transition-colors"
+              >
+                {isFullscreen ? <Minimize size={18} /> : <Maximize size={18} />}
+              </button>
+
+              {showExitConfirm && (
+                <Overlay label={t.exitConfirm.title} className="bg-opacity-90 z-50">
+                  <div className="m-auto text-center bg-gray-800 p-6 rounded-lg border border-red-500">
+                    <h2 className="text-2xl font-bold text-red-400 mb-4">{t.exitConfirm.title}</h2>
+                    {runOptions.level ? (
+                      <p className="text-gray-400 mb-6">{t.exitConfirm.levelAttempt(levelName(runOptions.level))}</p>
+                    ) : (
+                      <>
+                        <p className="text-gray-300 mb-2">{t.exitConfirm.currentScore(formatNumber(score))}</p>
+                        <p className="text-gray-400 mb-6">{t.exitConfirm.progressSaved}</p>
+                      </>
+                    )}
+                    <div className="flex gap-4 justify-center">
+                      <button
+                        onClick={cancelExit}
+                        className="bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
+                      >
+                        {t.common.withKey(t.common.cancel, keyHint('pause'))}
+                      </button>
+                      <button
+                        onClick={handleExitToMenu}
+                        className="bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg transition-colors"
+                      >
+                        {t.common.exitToMenu}
+                      </button>
+                    </div>
+                  </div>
+                </Overlay>
+              )}
 
-              {echoes.map(echo => (
-                <div
-                  key={echo.id}
-                  className="absolute border-2 border-blue-400 rounded-full pointer-events-none"
-                  style={{
-                    left: echo.x - echo.radius,
-                    top: echo.y - echo.radius,
-                    width: echo.radius * 2,
-                    height: echo.radius * 2,
-                    opacity: echo.opacity,
-                    borderWidth: Math.max(1, 3 - echo.radius / 30),
-                    boxShadow: `0 0 ${echo.radius / 4}px rgba(59, 130, 246, ${echo.opacity})`
-                  }}
-                />
-              ))}
+              {gameState === 'tutorial' && (
+                <Overlay label={t.tutorial.label}>
+                  <div className="m-auto text-center max-w-lg p-6">
+                    <h2 className="text-3xl font-bold text-blue-400 mb-6">{t.tutorial.title}</h2>
+                    <div className="text-left space-y-4 mb-8">
+                      <div className="bg-gray-800 p-4 rounded-lg">
+                        <h3 className="text-lg font-semibold text-blue-300 mb-2">{t.tutorial.movementTitle}</h3>
+                        <p className="text-gray-300">{t.tutorial.movement(keyHint('up'), keyHint('down'))}</p>
+                      </div>
+                      <div className="bg-gray-800 p-4 rounded-lg">
+                        <h3 className="text-lg font-semibold text-blue-300 mb-2">{t.tutorial.touchTitle}</h3>
+                        <p className="text-gray-300">{t.tutorial.touch}</p>
+                      </div>
+                      <div className="bg-gray-800 p-4 rounded-lg">
+                        <h3 className="text-lg font-semibold text-blue-300 mb-2">{t.tutorial.echoTitle}</h3>
+                        <p className="text-gray-300">{t.tutorial.echo(keyHint('ping'), keyHint('cone'), keyHint('pulse'))}</p>
+                      </div>
+                      <div className="bg-gray-800 p-4 rounded-lg">
+                        <h3 className="text-lg font-semibold text-blue-300 mb-2">{t.tutorial.powerUpsTitle}</h3>
+                        <p className="text-gray-300">{t.tutorial.powerUps}</p>
+                      </div>
+                      <div className="bg-gray-800 p-4 rounded-lg">
+                        <h3 className="text-lg font-semibold text-blue-300 mb-2">{t.tutorial.objectiveTitle}</h3>
+                        <p className="text-gray-300">{t.tutorial.objective}</p>
+                      </div>
+                      <div className="bg-gray-800 p-4 rounded-lg">
+                        <h3 className="text-lg font-semibold text-blue-300 mb-2">{t.tutorial.modesTitle}</h3>
+                        <p className="text-gray-300">{t.tutorial.modes}</p>
+                      </div>
+                      <div className="bg-gray-800 p-4 rounded-lg">
+                        <h3 className="text-lg font-semibold text-blue-300 mb-2">{t.tutorial.audioOnlyTitle}</h3>
+                        <p className="text-gray-300">{t.tutorial.audioOnly}</p>
+                      </div>
+                    </div>
+                    <div className="flex gap-4 justify-center">
+                      <button
+                        onClick={() => setGameState('menu')}
+                        className="bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
+                      >
+                        {t.common.backToMenu}
+                      </button>
+                      <button
+                        onClick={startGame}
+                        className="bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg font-semibold transition-colors"
+                      >
+                        {t.tutorial.startPlaying}
+                      </button>
+                    </div>
+                  </div>
+                </Overlay>
+              )}
 
-              <div 
-                className="absolute inset-0 pointer-events-none"
-                style={{
-                  background: `radial-gradient(circle at ${playerPos.x + PLAYER_SIZE/2}px ${playerPos.y + PLAYER_SIZE/2}px, 
-                    transparent 40px, 
-                    rgba(0,0,0,0.3) 80px, 
-                    rgba(0,0,0,0.8) 150px, 
-                    rgba(0,0,0,0.95) 300px)`
-                }}
-              />
-            </div>
+              {gameState === 'settings' && (
+                <Overlay label={t.settings.title}>
+                <div className="m-auto text-center max-w-md p-6">
+                  <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-3xl font-bold text-blue-400">{t.settings.title}</h2>
+                  <button
+                    onClick={() => setGameState('menu')}
+                    aria-label={t.settings.close}
+                    className="text-gray-400 hover:text-white transition-colors"
+                  >
+                    <X size={24} />
+                  </button>
+                  </div>
 
-            {showExitConfirm && (
-              <div className="absolute inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50">
-                <div className="text-center bg-gray-800 p-6 rounded-lg border border-red-500">
-                  <h2 className="text-2xl font-bold text-red-400 mb-4">Exit to Menu?</h2>
-                  <p className="text-gray-300 mb-2">Current Score: {score.toLocaleString()}</p>
-                  <p className="text-gray-400 mb-6">Your progress will be saved to high scores</p>
-                  <div className="flex gap-4 justify-center">
+                  <div className="mb-6 flex items-center justify-between gap-4">
+                  <label htmlFor="language" className="flex items-center gap-2">
+                    <Languages size={18} />
+                    {t.settings.language}
+                  </label>
+                  <select
+                    id="language"
+                    value={tempSettings.language}
+                    onChange={e => setTempSettings(prev => ({ ...prev, language: e.target.value as Locale | 'auto' }))}
+                    className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5"
+                  >
+                    <option value="auto">{t.settings.languageAuto}</option>
+                    {LOCALES.map(locale => (
+                    <option key={locale} value={locale} lang={locale}>{LOCALE_NAMES[locale]}</option>
+                    ))}
+                  </select>
+                  </div>
+                
+                  <div className="mb-6">
+                  <h3 className="text-xl font-semibold mb-3">{t.settings.gameMode}</h3>
+                  <div className="flex gap-2 justify-center">
                     <button
-                      onClick={cancelExit}
-                      className="bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
+                    onClick={() => setTempSettings(prev => ({ ...prev, gameMode: 'limited' }))}
+                    aria-pressed={tempSettings.gameMode === 'limited'}
+                    className={`px-4 py-2 rounded-lg transition-colors ${
+                      tempSettings.gameMode === 'limited' 
+                      ? 'bg-blue-600 text-white' 
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
                     >
-                      Cancel (ESC)
+                    {t.modes.limited}
                     </button>
                     <button
-                      onClick={handleExitToMenu}
-                      className="bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg transition-colors"
+                    onClick={() => setTempSettings(prev => ({ ...prev, gameMode: 'infinite' }))}
+                    aria-pressed={tempSettings.gameMode === 'infinite'}
+                    className={`px-4 py-2 rounded-lg transition-colors flex items-center gap-2 ${
+                      tempSettings.gameMode === 'infinite' 
+                      ? 'bg-purple-600 text-white' 
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
                     >
-                      Exit to Menu
+                    <Zap size={16} />
+                    {t.modes.infinite}
                     </button>
                   </div>
-                </div>
-              </div>
-            )}
-
-            {gameState === 'tutorial' && (
-              <div className="absolute inset-0 bg-black bg-opacity-95 flex items-center justify-center">
-                <div className="text-center max-w-lg p-6">
-                  <h2 className="text-3xl font-bold text-blue-400 mb-6">How to Play</h2>
-                  <div className="text-left space-y-4 mb-8">
-                    <div className="bg-gray-800 p-4 rounded-lg">
-                      <h3 className="text-lg font-semibold text-blue-300 mb-2">Movement</h3>
-                      <p className="text-gray-300">Use ↑/↓ arrow keys or W/S to move up and down</p>
-                    </div>
-                    <div className="bg-gray-800 p-4 rounded-lg">
-                      <h3 className="text-lg font-semibold text-blue-300 mb-2">Echo System</h3>
-                      <p className="text-gray-300">Press SPACE to emit sound waves that reveal obstacles temporarily</p>
-                    </div>
-                    <div className="bg-gray-800 p-4 rounded-lg">
-                      <h3 className="text-lg font-semibold text-blue-300 mb-2">Objective</h3>
-                      <p className="text-gray-300">Avoid red obstacles and survive as long as possible. Use echoes wisely!</p>
-                    </div>
-                    <div className="bg-gray-800 p-4 rounded-lg">
-                      <h3 className="text-lg font-semibold text-blue-300 mb-2">Game Modes</h3>
-                      <p className="text-gray-300">Limited: Fixed number of echoes | Infinite: Unlimited echoes with cooldowns</p>
-                    </div>
                   </div>
-                  <div className="flex gap-4 justify-center">
+
+                  <div className="mb-6">
+                  <h3 className="text-xl font-semibold mb-3">{t.settings.difficulty}</h3>
+                  <div className="grid grid-cols-2 gap-2">
+                    {[...DIFFICULTY_PRESETS, 'custom' as const].map(diff => (
                     <button
-                      onClick={() => setGameState('menu')}
-                      className="bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
+                      key={diff}
+                      onClick={() => setTempSettings(prev => ({ ...prev, difficulty: diff }))}
+                      aria-pressed={tempSettings.difficulty === diff}
+                      className={`px-4 py-2 rounded-lg transition-colors ${diff === 'custom' ? 'col-span-2' : ''} ${
+                      tempSettings.difficulty === diff 
+                        ? 'bg-blue-600 text-white' 
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
                     >
-                      Back to Menu
+                      <span className={getDifficultyColor(diff)}>
+                      {t.difficulties[diff]}
+                      </span>
                     </button>
+                    ))}
+                  </div>
+                  {tempSettings.difficulty === 'custom' && (
+                    <CustomDifficultyEditor
+                    value={tempSettings.customDifficulty}
+                    presets={tempSettings.customPresets}
+                    onChange={customDifficulty => setTempSettings(prev => ({ ...prev, customDifficulty }))}
+                    onPresetsChange={customPresets => setTempSettings(prev => ({ ...prev, customPresets }))}
+                    />
+                  )}
+                  </div>
+
+                  <div className="mb-6 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span>{t.settings.soundEffects}</span>
+                    <ToggleSwitch
+                    checked={tempSettings.soundEnabled}
+                    label={t.settings.soundEffects}
+                    onChange={soundEnabled => setTempSettings(prev => ({ ...prev, soundEnabled }))}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <span>{t.settings.masterVolume}</span>
+                    <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(tempSettings.volume * 100)}
+                    disabled={!tempSettings.soundEnabled}
+                    aria-label={t.settings.masterVolume}
+                    onChange={e => setTempSettings(prev => ({ ...prev, volume: Number(e.target.value) / 100 }))}
+                    className="w-40 accent-blue-500 disabled:opacity-40"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-left">
+                    {t.settings.partialReveal}
+                    <span className="block text-xs text-gray-400">{t.settings.partialRevealHint}</span>
+                    </span>
+                    <ToggleSwitch
+                    checked={tempSettings.partialReveal}
+                    label={t.settings.partialReveal}
+                    onChange={partialReveal => setTempSettings(prev => ({ ...prev, partialReveal }))}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-left">
+                    {t.settings.ghost}
+                    <span className="block text-xs text-gray-400">{t.settings.ghostHint}</span>
+                    </span>
+                    <ToggleSwitch
+                    checked={tempSettings.showGhost}
+                    label={t.settings.ghost}
+                    onChange={showGhost => setTempSettings(prev => ({ ...prev, showGhost }))}
+                    />
+                  </div>
+                  </div>
+
+                  <div className="mb-6">
+                  <h3 className="text-xl font-semibold mb-3">{t.settings.accessibility}</h3>
+                  <div className="grid grid-cols-3 gap-2 mb-4" role="radiogroup" aria-label={t.settings.colorPalette}>
+                    {COLOR_PALETTES.map(colorPalette => (
                     <button
-                      onClick={() => {
-                        initGame();
-                        setGameState('playing');
-                      }}
-                      className="bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg font-semibold transition-colors"
+                      key={colorPalette}
+                      role="radio"
+                      aria-checked={tempSettings.colorPalette === colorPalette}
+                      title={t.palettes[colorPalette].description}
+                      onClick={() => setTempSettings(prev => ({ ...prev, colorPalette }))}
+                      className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                      tempSettings.colorPalette === colorPalette
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
                     >
-                      Start Playing!
+                      {t.palettes[colorPalette].label}
                     </button>
+                    ))}
+                  </div>
+                  <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-left">
+                    {t.settings.highContrast}
+                    <span className="block text-xs text-gray-400">{t.settings.highContrastHint}</span>
+                    </span>
+                    <ToggleSwitch
+                    checked={tempSettings.highContrast}
+                    label={t.settings.highContrast}
+                    onChange={highContrast => setTempSettings(prev => ({ ...prev, highContrast }))}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-left">
+                    {t.settings.reducedMotion}
+                    <span className="block text-xs text-gray-400">{t.settings.reducedMotionHint}</span>
+                    </span>
+                    <ToggleSwitch
+                    checked={tempSettings.reducedMotion}
+                    label={t.settings.reducedMotion}
+                    onChange={reducedMotion => setTempSettings(prev => ({ ...prev, reducedMotion }))}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-left">
+                    {t.settings.audioOnly}
+                    <span className="block text-xs text-gray-400">{t.settings.audioOnlyHint}</span>
+                    </span>
+                    <ToggleSwitch
+                    checked={tempSettings.audioOnly}
+                    label={t.settings.audioOnly}
+                    onChange={audioOnly => setTempSettings(prev => ({ ...prev, audioOnly }))}
+                    />
+                  </div>
+                  </div>
                   </div>
-                </div>
-              </div>
-            )}
 
-            {gameState === 'settings' && (
-              <div className="absolute inset-0 bg-black bg-opacity-95 flex items-center justify-center overflow-y-auto">
-              <div className="text-center max-w-md p-6">
-                <div className="flex items-center justify-between mb-6">
-                <h2 className="text-3xl font-bold text-blue-400">Settings</h2>
-                <button
-                  onClick={() => setGameState('menu')}
-                  className="text-gray-400 hover:text-white transition-colors"
-                >
-                  <X size={24} />
-                </button>
-                </div>
-                
-                <div className="mb-6">
-                <h3 className="text-xl font-semibold mb-3">Game Mode</h3>
-                <div className="flex gap-2 justify-center">
-                  <button
-                  onClick={() => setTempSettings(prev => ({ ...prev, gameMode: 'limited' }))}
-                  className={`px-4 py-2 rounded-lg transition-colors ${
-                    tempSettings.gameMode === 'limited' 
-                    ? 'bg-blue-600 text-white' 
-                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                  }`}
-                  >
-                  Limited Echoes
-                  </button>
-                  <button
-                  onClick={() => setTempSettings(prev => ({ ...prev, gameMode: 'infinite' }))}
-                  className={`px-4 py-2 rounded-lg transition-colors flex items-center gap-2 ${
-                    tempSettings.gameMode === 'infinite' 
-                    ? 'bg-purple-600 text-white' 
-                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                  }`}
-                  >
-                  <Zap size={16} />
-                  Infinite Echoes
-                  </button>
-                </div>
-                </div>
+                  <div className="mb-6">
+                  <h3 className="text-xl font-semibold mb-3">{t.settings.controls}</h3>
+                  <ControlsSettings
+                    bindings={tempSettings.keyBindings}
+                    controls={controls}
+                    onChange={updateKeyBindings}
+                  />
+                  </div>
+
+                  {tempSettings.difficulty !== 'custom' && (
+                  <div className="mb-6 text-sm text-gray-400 text-left bg-gray-800 p-4 rounded-lg">
+                  <h4 className="font-semibold mb-2">{t.settings.preview}</h4>
+                  <div className="space-y-1">
+                    <p>• {t.difficultyFields.echoCount}: {tempSettings.gameMode === 'infinite' ? '∞' : DIFFICULTY_SETTINGS[tempSettings.difficulty].echoCount}</p>
+                    <p>• {t.difficultyFields.echoInterval}: {formatNumber(DIFFICULTY_SETTINGS[tempSettings.difficulty].echoInterval)}ms</p>
+                    <p>• {t.difficultyFields.echoMaxRadius}: {DIFFICULTY_SETTINGS[tempSettings.difficulty].echoMaxRadius}px</p>
+                    <p>• {t.difficultyFields.echoRevealDuration}: {formatNumber(DIFFICULTY_SETTINGS[tempSettings.difficulty].echoRevealDuration)}ms</p>
+                    <p>• {t.difficultyFields.gameSpeedMultiplier}: {formatMultiplier(DIFFICULTY_SETTINGS[tempSettings.difficulty].gameSpeedMultiplier)}</p>
+                  </div>
+                  </div>
+                  )}
 
-                <div className="mb-6">
-                <h3 className="text-xl font-semibold mb-3">Difficulty</h3>
-                <div className="grid grid-cols-2 gap-2">
-                  {(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[]).map(diff => (
+                  <div className="flex gap-2 justify-center">
                   <button
-                    key={diff}
-                    onClick={() => setTempSettings(prev => ({ ...prev, difficulty: diff }))}
-                    className={`px-4 py-2 rounded-lg transition-colors capitalize ${
-                    tempSettings.difficulty === diff 
-                      ? 'bg-blue-600 text-white' 
-                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                    }`}
+                    onClick={resetSettings}
+                    className="bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
                   >
-                    <span className={getDifficultyColor(diff)}>
-                    {diff}
-                    </span>
+                    {t.settings.reset}
                   </button>
-                  ))}
-                </div>
-                </div>
-
-                <div className="mb-6 space-y-4">
-                <div className="flex items-center justify-between">
-                  <span>Sound Effects</span>
                   <button
-                  onClick={() => setTempSettings(prev => ({ ...prev, soundEnabled: !prev.soundEnabled }))}
-                  className={`w-12 h-6 rounded-full transition-colors ${
-                    tempSettings.soundEnabled ? 'bg-blue-600' : 'bg-gray-600'
-                  }`}
+                    onClick={saveSettings}
+                    disabled={!settingsChanged}
+                    className={`px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2 ${
+                    settingsChanged 
+                      ? 'bg-green-600 hover:bg-green-700 text-white' 
+                      : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                    }`}
                   >
-                  <div className={`w-5 h-5 bg-white rounded-full transition-transform ${
-                    tempSettings.soundEnabled ? 'translate-x-6' : 'translate-x-1'
-                  }`} />
+                    <Save size={16} />
+                    {settingsChanged ? t.settings.saveChanges : t.settings.saved}
                   </button>
+                  </div>
                 </div>
-                </div>
-
-                <div className="mb-6 text-sm text-gray-400 text-left bg-gray-800 p-4 rounded-lg">
-                <h4 className="font-semibold mb-2">Current Settings Preview:</h4>
-                <div className="space-y-1">
-                  <p>• Echo Count: {tempSettings.gameMode === 'infinite' ? '∞' : DIFFICULTY_SETTINGS[tempSettings.difficulty].echoCount}</p>
-                  <p>• Echo Interval: {DIFFICULTY_SETTINGS[tempSettings.difficulty].echoInterval}ms</p>
-                  <p>• Echo Radius: {DIFFICULTY_SETTINGS[tempSettings.difficulty].echoMaxRadius}px</p>
-                  <p>• Reveal Duration: {DIFFICULTY_SETTINGS[tempSettings.difficulty].echoRevealDuration}ms</p>
-                  <p>• Game Speed: {DIFFICULTY_SETTINGS[tempSettings.difficulty].gameSpeedMultiplier}x</p>
-                </div>
-                </div>
-
-                <div className="flex gap-2 justify-center">
-                <button
-                  onClick={resetSettings}
-                  className="bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
-                >
-                  Reset
-                </button>
-                <button
-                  onClick={saveSettings}
-                  disabled={!settingsChanged}
-                  className={`px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2 ${
-                  settingsChanged 
-                    ? 'bg-green-600 hover:bg-green-700 text-white' 
-                    : 'bg-gray-600 text-gray-400 cursor-not-allowed'
-                  }`}
-                >
-                  <Save size={16} />
-                  {settingsChanged ? 'Save Changes' : 'Saved'}
-                </button>
-                </div>
-              </div>
-              </div>
-            )}
+                </Overlay>
+              )}
 
-            {gameState === 'highScores' && (
-              <div className="absolute inset-0 bg-black bg-opacity-95 flex items-center justify-center">
-                <div className="text-center max-w-lg p-6">
-                  <div className="flex items-center justify-between mb-6">
-                    <h2 className="text-3xl font-bold text-yellow-400 flex items-center gap-2">
-                      <Trophy size={32} />
-                      High Scores
-                    </h2>
-                    <button
-                      onClick={() => setGameState('menu')}
-                      className="text-gray-400 hover:text-white transition-colors"
-                    >
-                      <X size={24} />
-                    </button>
-                  </div>
-                  
-                  {highScores.length === 0 ? (
-                    <div className="text-gray-400 py-8">
-                      <p>No high scores yet!</p>
-                      <p className="text-sm mt-2">Play a game to set your first record.</p>
+              {gameState === 'highScores' && (
+                <Overlay label={t.highScores.label}>
+                  <div className="m-auto text-center max-w-lg p-6">
+                    <div className="flex items-center justify-between mb-6">
+                      <h2 className="text-3xl font-bold text-yellow-400 flex items-center gap-2">
+                        <Trophy size={32} />
+                        {t.highScores.title}
+                      </h2>
+                      <button
+                        onClick={() => setGameState('menu')}
+                        aria-label={t.highScores.close}
+                        className="text-gray-400 hover:text-white transition-colors"
+                      >
+                        <X size={24} />
+                      </button>
                     </div>
-                  ) : (
-                    <div className="space-y-2 max-h-80 overflow-y-auto">
-                      {highScores.map((score, index) => (
-                        <div 
-                          key={index}
-                          className={`flex justify-between items-center p-3 rounded-lg ${
-                            index === 0 ? 'bg-yellow-900 bg-opacity-30 border border-yellow-600' :
-                            index === 1 ? 'bg-gray-700 bg-opacity-50' :
-                            index === 2 ? 'bg-orange-900 bg-opacity-30' :
-                            'bg-gray-800'
+                  
+                    <div className="flex gap-2 mb-4" role="tablist" aria-label={t.highScores.boards}>
+                      {[false, true].map(audioOnly => (
+                        <button
+                          key={String(audioOnly)}
+                          role="tab"
+                          aria-selected={audioOnlyBoard === audioOnly}
+                          onClick={() => setAudioOnlyBoard(audioOnly)}
+                          className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                            audioOnlyBoard === audioOnly ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
                           }`}
                         >
-                          <div className="flex items-center gap-3">
-                            <span className={`font-bold ${
-                              index === 0 ? 'text-yellow-400' :
-                              index === 1 ? 'text-gray-300' :
-                              index === 2 ? 'text-orange-400' :
-                              'text-gray-400'
-                            }`}>
-                              #{index + 1}
-                            </span>
-                            <div className="text-left">
-                              <div className="font-semibold">{score.score.toLocaleString()}</div>
-                              <div className="text-xs text-gray-400">
-                                {score.date} • <span className={getDifficultyColor(score.difficulty)}>{score.difficulty}</span> • {score.gameMode}
+                          {audioOnly ? t.highScores.audioOnly : t.highScores.visual}
+                        </button>
+                      ))}
+                    </div>
+
+                    {boardScores.length === 0 ? (
+                      <div className="text-gray-400 py-8">
+                        <p>{t.highScores.empty}</p>
+                        <p className="text-sm mt-2">
+                          {audioOnlyBoard ? t.highScores.emptyAudioOnlyHint : t.highScores.emptyHint}
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-2 max-h-80 overflow-y-auto">
+                        {boardScores.map((score, index) => (
+                          <div 
+                            key={index}
+                            className={`flex justify-between items-center p-3 rounded-lg ${
+                              index === 0 ? 'bg-yellow-900 bg-opacity-30 border border-yellow-600' :
+                              index === 1 ? 'bg-gray-700 bg-opacity-50' :
+                              index === 2 ? 'bg-orange-900 bg-opacity-30' :
+                              'bg-gray-800'
+                            }`}
+                          >
+                            <div className="flex items-center gap-3">
+                              <span className={`font-bold ${
+                                index === 0 ? 'text-yellow-400' :
+                                index === 1 ? 'text-gray-300' :
+                                index === 2 ? 'text-orange-400' :
+                                'text-gray-400'
+                              }`}>
+                                #{index + 1}
+                              </span>
+                              <div className="text-left">
+                                <div className="font-semibold">{formatNumber(score.score)}</div>
+                                <div className="text-xs text-gray-400">
+                                  {score.date ? formatDate(score.date) : '–'} • <span className={getDifficultyColor(score.difficulty)}>{t.difficulties[score.difficulty]}</span> • {t.modes[score.gameMode]}
+                                </div>
+                                {score.seed !== undefined && (
+                                  <div className="text-xs text-gray-500">
+                                    {score.daily && <span className="text-teal-400">{t.highScores.daily(score.daily)} • </span>}
+                                    {t.common.seed(formatSeed(score.seed))}
+                                  </div>
+                                )}
                               </div>
                             </div>
+                            <div className="flex items-center gap-3">
+                              {score.gameMode === 'infinite' && (
+                                <Zap size={16} className="text-purple-400" />
+                              )}
+                              {score.replay && (
+                                <button
+                                  onClick={() => openReplay(score)}
+                                  title={t.highScores.watchReplay}
+                                  aria-label={t.highScores.watchReplay}
+                                  className="text-gray-400 hover:text-white transition-colors"
+                                >
+                                  <Film size={16} />
+                                </button>
+                              )}
+                              {score.seed !== undefined && (
+                                <button
+                                  onClick={() => playCourse(score)}
+                                  title={t.highScores.playCourse}
+                                  aria-label={t.highScores.playCourse}
+                                  className="text-gray-400 hover:text-white transition-colors"
+                                >
+                                  <RotateCcw size={16} />
+                                </button>
+                              )}
+                            </div>
                           </div>
-                          {score.gameMode === 'infinite' && (
-                            <Zap size={16} className="text-purple-400" />
-                          )}
-                        </div>
-                      ))}
-                    </div>
-                  )}
+                        ))}
+                      </div>
+                    )}
                   
-                  <button
-                    onClick={() => setGameState('menu')}
-                    className="mt-6 bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg font-semibold transition-colors"
-                  >
-                    Back to Menu
-                  </button>
-                </div>
-              </div>
-            )}
-
-            {gameState === 'gameOver' && (
-              <div className="absolute inset-0 bg-black bg-opacity-80 flex items-center justify-center">
-                <div className="text-center">
-                  <h2 className="text-3xl font-bold text-red-400 mb-4">Game Over!</h2>
-                  <p className="text-xl mb-2">Final Score: {score.toLocaleString()}</p>
-                  <p className="text-gray-400 mb-2">
-                    Difficulty: <span className={getDifficultyColor(settings.difficulty)}>{settings.difficulty}</span>
-                  </p>
-                  <p className="text-gray-400 mb-2">
-                    Mode: {settings.gameMode === 'infinite' ? 'Infinite Echoes' : 'Limited Echoes'}
-                  </p>
-                  {getBestScore() > 0 && (
-                    <p className="text-yellow-400 mb-6">
-                      Best: {getBestScore().toLocaleString()}
-                      {score > getBestScore() && <span className="text-green-400 ml-2">NEW RECORD! 🎉</span>}
-                    </p>
-                  )}
-                  <div className="flex gap-4 justify-center">
                     <button
                       onClick={() => setGameState('menu')}
-                      className="bg-gray-600 hover:bg-gray-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
-                    >
-                      <Home size={20} />
-                      Menu
-                    </button>
-                    <button
-                      onClick={restartGame}
-                      className="bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                      className="mt-6 bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg font-semibold transition-colors"
                     >
-                      <RotateCcw size={20} />
-                      Try Again
+                      {t.common.backToMenu}
                     </button>
                   </div>
-                </div>
-              </div>
-            )}
-
-            {gameState === 'paused' && (
-              <div className="absolute inset-0 bg-black bg-opacity-80 flex items-center justify-center">
-                <div className="text-center">
-                  <h2 className="text-3xl font-bold text-blue-400 mb-4">Paused</h2>
-                  <p className="text-gray-400 mb-6">Press ESC to resume</p>
-                  <div className="flex gap-4 justify-center">
-                    <button
-                      onClick={() => setShowExitConfirm(true)}
-                      className="bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg transition-colors flex items-center gap-2"
-                    >
-                      <Home size={16} />
-                      Menu (Q)
-                    </button>
-                    <button
-                      onClick={togglePause}
-                      className="bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
-                    >
-                      <Play size={20} />
-                      Resume
-                    </button>
+                </Overlay>
+              )}
+
+              {gameState === 'gameOver' && runOptions.level && (
+                <Overlay label={t.levelResults.label} className="bg-opacity-80">
+                  <div className="m-auto text-center">
+                    {game.status === 'finished' ? (
+                      <>
+                        <h2 className="text-3xl font-bold text-green-400 mb-4">{t.levelResults.complete}</h2>
+                        <p className="text-xl mb-2">{levelName(runOptions.level)}</p>
+                        <p className="text-gray-300 mb-2 flex items-center justify-center gap-2">
+                          <Timer size={18} />
+                          {formatLevelTime(game.time)}
+                        </p>
+                        {levelResult && (
+                          <p className="text-yellow-400 mb-6">
+                            {levelResult.previousBestMs === null || levelResult.timeMs < levelResult.previousBestMs ? (
+                              <span className="text-green-400">{t.levelResults.newBestTime}</span>
+                            ) : (
+                              <>{t.common.best}: {formatLevelTime(levelResult.previousBestMs)}</>
+                            )}
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        <h2 className="text-3xl font-bold text-red-400 mb-4">{t.levelResults.crashed}</h2>
+                        <p className="text-xl mb-2">{levelName(runOptions.level)}</p>
+                        <p className="text-gray-400 mb-6">
+                          {t.levelResults.progress(formatPercent(Math.floor(getLevelProgress(runOptions.level, game.distance) * 100) / 100))}
+                        </p>
+                      </>
+                    )}
+                    <RunBreakdown stats={game.stats} history={comparableRuns} />
+                    <div className="flex gap-4 justify-center">
+                      {runOptions.playtestFrom !== undefined ? (
+                        <button
+                          onClick={() => setGameState('editor')}
+                          className="bg-gray-600 hover:bg-gray-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                        >
+                          <PencilRuler size={20} />
+                          {t.levelResults.editor}
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setGameState('levelSelect')}
+                          className="bg-gray-600 hover:bg-gray-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                        >
+                          <Flag size={20} />
+                          {t.levelResults.levels}
+                        </button>
+                      )}
+                      <button
+                        onClick={restartGame}
+                        className="bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                      >
+                        <RotateCcw size={20} />
+                        {t.common.tryAgain}
+                      </button>
+                      {game.status === 'finished' && nextLevel && (
+                        <button
+                          onClick={() => startLevel(nextLevel)}
+                          className="bg-green-600 hover:bg-green-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                        >
+                          {t.levelResults.next}
+                          <ChevronRight size={20} />
+                        </button>
+                      )}
+                    </div>
                   </div>
+                </Overlay>
+              )}
+
+              {gameState === 'achievements' && (
+                <Overlay label={t.achievementsScreen.title}>
+                  <AchievementsScreen progress={achievementProgress} onClose={() => setGameState('menu')} />
+                </Overlay>
+              )}
+
+              {achievementToasts.length > 0 && (
+                <div className="absolute top-3 right-3 z-10 space-y-2 pointer-events-none">
+                  {achievementToasts.map(achievement => (
+                    <AchievementToast
+                      key={achievement.id}
+                      achievement={achievement}
+                      onDone={() => dismissAchievementToast(achievement)}
+                    />
+                  ))}
                 </div>
-              </div>
-            )}
-
-            {gameState === 'menu' && (
-              <div className="absolute inset-0 bg-black bg-opacity-95 flex items-center justify-center">
-                <div className="text-center max-w-lg p-8">
-                  <div className="mb-8">
-                    <h2 className="text-4xl font-bold text-blue-400 mb-4">Echo Runner</h2>
-                    <p className="text-gray-300 text-lg mb-6">Navigate through darkness using sound echoes</p>
+              )}
+
+              {gameState === 'levelSelect' && (
+                <Overlay label={t.levelSelect.title}>
+                  <LevelSelect
+                    levels={BUNDLED_LEVELS}
+                    records={levelRecords}
+                    onPlay={startLevel}
+                    onClose={() => setGameState('menu')}
+                  />
+                </Overlay>
+              )}
+
+              {gameState === 'gameOver' && !runOptions.level && (
+                <Overlay label={t.gameOver.label} className="bg-opacity-80">
+                  <div className="m-auto text-center">
+                    <h2 className="text-3xl font-bold text-red-400 mb-4">{t.gameOver.title}</h2>
+                    <p className="text-xl mb-2">{t.gameOver.finalScore(formatNumber(score))}</p>
+                    <p className="text-gray-400 mb-2">
+                      {t.gameOver.difficulty}: <span className={getDifficultyColor(runOptions.difficulty)}>{t.difficulties[runOptions.difficulty]}</span>
+                    </p>
+                    <p className="text-gray-400 mb-2">
+                      {t.gameOver.mode}: {t.modes[runOptions.gameMode]}
+                    </p>
+                    <p className="text-gray-500 text-sm mb-2">
+                      {runOptions.daily && <span className="text-teal-400">{t.gameOver.dailyChallenge(runOptions.daily)} • </span>}
+                      {t.common.seed(formatSeed(game.config.seed))}
+                    </p>
+                    {getBestScore(runOptions) > 0 && (
+                      <p className="text-yellow-400 mb-6">
+                        {t.common.best}: {formatNumber(getBestScore(runOptions))}
+                        {score > getBestScore(runOptions) && <span className="text-green-400 ml-2">{t.gameOver.newRecord}</span>}
+                      </p>
+                    )}
+                    <RunBreakdown stats={game.stats} history={comparableRuns} />
+                    <div className="flex gap-4 justify-center">
+                      <button
+                        onClick={() => setGameState('menu')}
+                        className="bg-gray-600 hover:bg-gray-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                      >
+                        <Home size={20} />
+                        {t.common.menu}
+                      </button>
+                      <button
+                        onClick={restartGame}
+                        className="bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                      >
+                        <RotateCcw size={20} />
+                        {t.common.tryAgain}
+                      </button>
+                    </div>
+                  </div>
+                </Overlay>
+              )}
+
+              {gameState === 'paused' && (
+                <Overlay label={t.pause.title} className="bg-opacity-80">
+                  <div className="m-auto text-center">
+                    <h2 className="text-3xl font-bold text-blue-400 mb-4">{t.pause.title}</h2>
+                    <p className="text-gray-400 mb-6">{t.pause.pressToResume(keyHint('pause'))}</p>
+                    <div className="flex gap-4 justify-center">
+                      <button
+                        onClick={() => setShowExitConfirm(true)}
+                        className="bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg transition-colors flex items-center gap-2"
+                      >
+                        <Home size={16} />
+                        {t.common.withKey(t.common.menu, keyHint('quit'))}
+                      </button>
+                      <button
+                        onClick={togglePause}
+                        className="bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                      >
+                        <Play size={20} />
+                        {t.common.resume}
+                      </button>
+                    </div>
+                  </div>
+                </Overlay>
+              )}
+
+              {gameState === 'menu' && (
+                <Overlay label={t.menu.label}>
+                  <div className="m-auto text-center max-w-lg p-8">
+                    <div className="mb-8">
+                      <h2 className="text-4xl font-bold text-blue-400 mb-4">{t.app.title}</h2>
+                      <p className="text-gray-300 text-lg mb-6">{t.menu.subtitle}</p>
                     
-                    <div className="bg-gray-800 rounded-lg p-6 mb-6">
-                      <div className="grid grid-cols-2 gap-4 text-sm">
-                        <div>
-                          <p className="text-gray-400">Mode</p>
-                          <p className="text-blue-400 font-semibold">
-                            {settings.gameMode === 'infinite' ? 'Infinite Echoes' : 'Limited Echoes'}
-                          </p>
-                        </div>
-                        <div>
-                          <p className="text-gray-400">Difficulty</p>
-                          <p className={`font-semibold ${getDifficultyColor(settings.difficulty)}`}>
-                            {settings.difficulty.charAt(0).toUpperCase() + settings.difficulty.slice(1)}
-                          </p>
+                      <div className="bg-gray-800 rounded-lg p-6 mb-6">
+                        <div className="grid grid-cols-2 gap-4 text-sm">
+                          <div>
+                            <p className="text-gray-400">{t.menu.mode}</p>
+                            <p className="text-blue-400 font-semibold">
+                              {t.modes[settings.gameMode]}
+                            </p>
+                            {settings.audioOnly && <p className="text-xs text-gray-400">{t.menu.audioOnly}</p>}
+                          </div>
+                          <div>
+                            <p className="text-gray-400">{t.menu.difficulty}</p>
+                            <p className={`font-semibold ${getDifficultyColor(settings.difficulty)}`}>
+                              {t.difficulties[settings.difficulty]}
+                            </p>
+                          </div>
+                          {getBestScore() > 0 && (
+                            <>
+                              <div>
+                                <p className="text-gray-400">{t.menu.bestScore}</p>
+                                <p className="text-yellow-400 font-semibold">{formatNumber(getBestScore())}</p>
+                              </div>
+                              <div>
+                                <p className="text-gray-400">{t.menu.totalScores}</p>
+                                <p className="text-purple-400 font-semibold">{formatNumber(highScores.length)}</p>
+                              </div>
+                            </>
+                          )}
                         </div>
-                        {getBestScore() > 0 && (
-                          <>
-                            <div>
-                              <p className="text-gray-400">Best Score</p>
-                              <p className="text-yellow-400 font-semibold">{getBestScore().toLocaleString()}</p>
-                            </div>
-                            <div>
-                              <p className="text-gray-400">Total Scores</p>
-                              <p className="text-purple-400 font-semibold">{highScores.length}</p>
-                            </div>
-                          </>
-                        )}
                       </div>
                     </div>
-                  </div>
 
-                  <div className="space-y-4">
-                    <button
-                      onClick={startGame}
-                      className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 px-8 py-4 rounded-lg font-bold text-xl transition-all duration-300 transform hover:scale-105 flex items-center justify-center gap-3"
-                    >
-                      <Play size={24} />
-                      Start Game
-                    </button>
-                    
-                    <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-4">
                       <button
-                        onClick={() => setGameState('settings')}
-                        className="bg-gray-700 hover:bg-gray-600 px-4 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                        onClick={startGame}
+                        className={`w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 px-8 py-4 rounded-lg font-bold text-xl transition-all duration-300 ${settings.reducedMotion ? '' : 'transform hover:scale-105'} flex items-center justify-center gap-3`}
                       >
-                        <Settings size={18} />
-                        Settings
+                        <Play size={24} />
+                        {t.menu.startGame}
                       </button>
+
                       <button
-                        onClick={() => setGameState('highScores')}
-                        className="bg-yellow-700 hover:bg-yellow-600 px-4 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                        onClick={startDailyChallenge}
+                        className="w-full bg-teal-700 hover:bg-teal-600 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
                       >
-                        <Trophy size={18} />
-                        Scores
+                        <CalendarDays size={20} />
+                        {t.menu.dailyChallenge}
+                        <span className="text-teal-200 text-sm font-normal">{getDailyKey()}</span>
                       </button>
+
                       <button
-                        onClick={() => setGameState('tutorial')}
-                        className="bg-purple-700 hover:bg-purple-600 px-4 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                        onClick={() => setGameState('race')}
+                        className="w-full bg-orange-700 hover:bg-orange-600 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
                       >
-                        <Info size={18} />
-                        Tutorial
+                        <Users size={20} />
+                        {t.menu.race}
                       </button>
+
+                      {settings.audioOnly && (
+                        <button
+                          onClick={startPractice}
+                          className="w-full bg-indigo-700 hover:bg-indigo-600 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                        >
+                          <Headphones size={20} />
+                          {t.menu.practice}
+                        </button>
+                      )}
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <button
+                          onClick={() => setGameState('levelSelect')}
+                          className="bg-green-700 hover:bg-green-600 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                        >
+                          <Flag size={20} />
+                          {t.menu.levels}
+                        </button>
+                        <button
+                          onClick={() => setGameState('editor')}
+                          className="bg-green-900 hover:bg-green-800 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                        >
+                          <PencilRuler size={20} />
+                          {t.menu.levelEditor}
+                        </button>
+                      </div>
+                    
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                        <button
+                          onClick={() => setGameState('settings')}
+                          className="bg-gray-700 hover:bg-gray-600 px-4 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                        >
+                          <Settings size={18} />
+                          {t.menu.settings}
+                        </button>
+                        <button
+                          onClick={() => setGameState('highScores')}
+                          className="bg-yellow-700 hover:bg-yellow-600 px-4 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                        >
+                          <Trophy size={18} />
+                          {t.menu.scores}
+                        </button>
+                        <button
+                          onClick={() => setGameState('achievements')}
+                          className="bg-amber-700 hover:bg-amber-600 px-4 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                        >
+                          <Award size={18} />
+                          {t.menu.awards}
+                        </button>
+                        <button
+                          onClick={() => setGameState('tutorial')}
+                          className="bg-purple-700 hover:bg-purple-600 px-4 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                        >
+                          <Info size={18} />
+                          {t.menu.tutorial}
+                        </button>
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="mt-8 text-sm text-gray-400 bg-gray-800 bg-opacity-50 p-4 rounded-lg">
-                    <p className="font-semibold mb-2">Quick Controls:</p>
-                    <div className="flex justify-between">
-                      <span>Movement: ↑↓ or W/S</span>
-                      <span>Echo: SPACE</span>
-                      <span>Pause: ESC</span>
+                    <div className="mt-8 text-sm text-gray-400 bg-gray-800 bg-opacity-50 p-4 rounded-lg">
+                      <p className="font-semibold mb-2">{t.menu.quickControls}</p>
+                      <div className="flex justify-between">
+                        <span>{t.menu.movementKeys(keyHint('up'), keyHint('down'))}</span>
+                        <span>{t.menu.echoKeys(keyHint('ping'), keyHint('cone'), keyHint('pulse'))}</span>
+                        <span>{t.menu.pauseKey(keyHint('pause'))}</span>
+                      </div>
                     </div>
                   </div>
-                </div>
-              </div>
-            )}
+                </Overlay>
+              )}
+            </div>
           </div>
-        </div>
 
-        {gameState === 'playing' && (
-          <div className="flex justify-between items-center mt-4 text-lg">
-            <div className="flex items-center gap-4">
-              <div className="text-blue-400">
-                Score: <span className="font-bold">{score.toLocaleString()}</span>
-              </div>
-              <div className="text-purple-400">
-                Speed: <span className="font-bold">{gameSpeed.toFixed(1)}x</span>
+          {gameState === 'playing' && (
+            <div className="flex flex-wrap justify-between items-center gap-2 mt-4 text-lg">
+              <div className="flex flex-wrap items-center gap-4">
+                {runOptions.level ? (
+                  <>
+                    <div className="text-green-400 flex items-center gap-1">
+                      <Flag size={18} />
+                      {levelName(runOptions.level)}
+                    </div>
+                    <div className="text-blue-400 tabular-nums">
+                      {t.hud.time}: <span className="font-bold">{formatLevelTime(game.time)}</span>
+                    </div>
+                    <div className="w-24 h-2 bg-gray-700 rounded-full overflow-hidden" title={t.hud.progress}>
+                      <div
+                        className="h-full bg-green-400"
+                        style={{ width: `${getLevelProgress(runOptions.level, game.distance) * 100}%` }}
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div className="text-blue-400">
+                      {t.common.score}: <span className="font-bold">{formatNumber(score)}</span>
+                    </div>
+                    <div className="text-purple-400">
+                      {t.common.speed}: <span className="font-bold">{formatMultiplier(game.gameSpeed)}</span>
+                    </div>
+                    <div className={getDifficultyColor(runOptions.difficulty)}>
+                      {t.difficulties[runOptions.difficulty]}
+                    </div>
+                  </>
+                )}
+                {runOptions.daily && (
+                  <div className="text-teal-400 flex items-center gap-1">
+                    <CalendarDays size={18} />
+                    {t.hud.daily}
+                  </div>
+                )}
+                {!runOptions.level && getBestScore(runOptions) > 0 && (
+                  <div className="text-yellow-400">
+                    {t.common.best}: <span className="font-bold">{formatNumber(getBestScore(runOptions))}</span>
+                  </div>
+                )}
+                {ghost && (ghostRunning ? (
+                  <div className="text-gray-400" title={t.hud.comparedWithGhost}>
+                    {t.hud.levelWithGhost}
+                  </div>
+                ) : (
+                  <div className="text-green-400" title={t.hud.comparedWithGhost}>
+                    {t.hud.ahead(formatNumber(Math.max(0, score - ghost.score)))}
+                  </div>
+                ))}
               </div>
-              <div className={getDifficultyColor(settings.difficulty)}>
-                {settings.difficulty.charAt(0).toUpperCase() + settings.difficulty.slice(1)}
+              <div className="flex items-center gap-4">
+                <PowerUpHud
+                  effects={game.effects}
+                  notice={pickupNotice && game.time - pickupNotice.time < PICKUP_NOTICE_MS ? pickupNotice.kind : null}
+                />
+                {runOptions.gameMode === 'infinite' ? (
+                  <div className="flex items-center gap-2">
+                    <Zap size={20} className="text-purple-400" />
+                    <div className="text-purple-400">
+                      {t.hud.infiniteMode}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Volume2 size={20} className="text-blue-400" />
+                    <div className="text-blue-400">
+                      {t.common.pings}: <span className="font-bold">{formatNumber(game.pingsRemaining)}</span>
+                    </div>
+                  </div>
+                )}
+                {ECHO_KINDS.map(kind => (
+                  <div key={kind} className="flex items-center gap-1 text-xs text-gray-400" title={t.common.withKey(t.echoes[kind], keyHint(kind))}>
+                    {t.echoes[kind]}
+                    <div className="w-12 h-2 bg-gray-700 rounded-full overflow-hidden">
+                      <div
+                        className="h-full transition-all duration-100"
+                        style={{ width: `${getPingCooldownProgress(game, kind) * 100}%`, backgroundColor: ECHO_TYPES[kind].color }}
+                      />
+                    </div>
+                  </div>
+                ))}
               </div>
-              {getBestScore() > 0 && (
-                <div className="text-yellow-400">
-                  Best: <span className="font-bold">{getBestScore().toLocaleString()}</span>
-                </div>
-              )}
             </div>
-            <div className="flex items-center gap-4">
-              {settings.gameMode === 'infinite' ? (
-                <div className="flex items-center gap-2">
-                  <Zap size={20} className="text-purple-400" />
+          )}
+
+          {gameState === 'playing' && (
+            <div className="flex flex-wrap justify-center gap-4 mt-4">
+              <button
+                onClick={togglePause}
+                className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg transition-colors flex items-center gap-2"
+              >
+                <Pause size={16} />
+                {t.common.withKey(t.actions.pause, keyHint('pause'))}
+              </button>
+              <button
+                onClick={() => setShowExitConfirm(true)}
+                className="bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg transition-colors flex items-center gap-2"
+              >
+                <Home size={16} />
+                {t.common.withKey(t.common.menu, keyHint('quit'))}
+              </button>
+              {ECHO_KINDS.map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => handlePing(kind)}
+                  disabled={getPingCooldownProgress(game, kind) < 1}
+                  className={`${ECHO_BUTTON_CLASSES[kind]} disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-2 rounded-lg transition-colors flex items-center gap-2`}
+                >
+                  <Volume2 size={16} />
+                  {t.common.withKey(t.echoes[kind], keyHint(kind))}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {gameState === 'replay' && replayView && (
+            <div className="mt-4 space-y-3">
+              <div className="flex justify-between items-center text-lg">
+                <div className="flex items-center gap-4">
+                  <div className="text-blue-400">
+                    {t.common.score}: <span className="font-bold">{formatNumber(score)}</span>
+                  </div>
                   <div className="text-purple-400">
-                    Infinite Mode
+                    {t.common.speed}: <span className="font-bold">{formatMultiplier(game.gameSpeed)}</span>
                   </div>
-                </div>
-              ) : (
-                <div className="flex items-center gap-2">
-                  <Volume2 size={20} className="text-blue-400" />
-                  <div className="text-blue-400">
-                    Pings: <span className="font-bold">{pingsRemaining}</span>
+                  <div className={getDifficultyColor(replayView.entry.difficulty)}>
+                    {t.difficulties[replayView.entry.difficulty]}
                   </div>
                 </div>
-              )}
-              <div className="w-16 h-2 bg-gray-700 rounded-full overflow-hidden">
-                <div 
-                  className="h-full bg-blue-400 transition-all duration-100"
-                  style={{ width: `${getPingCooldownProgress() * 100}%` }}
+                {replayView.timeline.finalState.score === replayView.entry.score ? (
+                  <div className="text-green-400 flex items-center gap-2 text-sm">
+                    <ShieldCheck size={18} />
+                    {t.replay.verified(formatNumber(replayView.entry.score))}
+                  </div>
+                ) : (
+                  <div className="text-red-400 flex items-center gap-2 text-sm">
+                    <ShieldAlert size={18} />
+                    {t.replay.mismatch(formatNumber(replayView.timeline.finalState.score))}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={toggleReplayPlaying}
+                  aria-label={replayPlaying ? t.replay.pause : t.replay.play}
+                  className="bg-blue-600 hover:bg-blue-700 px-3 py-2 rounded-lg transition-colors"
+                >
+                  {replayPlaying ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={replayView.timeline.replay.ticks}
+                  value={replayTick}
+                  onChange={e => seekReplay(replayView.timeline, Number(e.target.value))}
+                  aria-label={t.replay.seek}
+                  className="flex-1 accent-blue-500"
                 />
+                <span className="text-sm text-gray-400 tabular-nums">
+                  {formatDuration(replayTick * FIXED_STEP_MS)} / {formatDuration(replayView.timeline.replay.ticks * FIXED_STEP_MS)}
+                </span>
+                <div className="flex gap-1">
+                  {REPLAY_SPEEDS.map(speed => (
+                    <button
+                      key={speed}
+                      onClick={() => setReplaySpeed(speed)}
+                      className={`px-2 py-1 rounded text-sm transition-colors ${
+                        replaySpeed === speed ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      {t.units.multiplier(formatNumber(speed))}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setGameState('highScores')}
+                  aria-label={t.replay.close}
+                  className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg transition-colors"
+                >
+                  <X size={16} />
+                </button>
               </div>
             </div>
-          </div>
-        )}
-
-        {gameState === 'playing' && (
-          <div className="flex justify-center gap-4 mt-4">
-            <button
-              onClick={togglePause}
-              className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg transition-colors flex items-center gap-2"
-            >
-              <Pause size={16} />
-              Pause (ESC)
-            </button>
-            <button
-              onClick={() => setShowExitConfirm(true)}
-              className="bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg transition-colors flex items-center gap-2"
-            >
-              <Home size={16} />
-              Menu (Q)
-            </button>
-            <button
-              onClick={handlePing}
-              disabled={Date.now() - lastPingTime < currentSettings.echoInterval}
-              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-2 rounded-lg transition-colors flex items-center gap-2"
-            >
-              <Volume2 size={16} />
-              Ping (SPACE)
-            </button>
-          </div>
-        )}
+          )}
 
-        <div className="text-center mt-8 text-gray-500 text-sm">
-          <p>Navigate through the darkness using sound. Each echo reveals what lies ahead.</p>
-          <p className="mt-1">Settings are automatically saved. Press Q from anywhere to return to menu.</p>
-          <p className="mt-1">Use SPACE to ping, WASD/Arrows to move, ESC to pause.</p>
+          {!isFullscreen && (
+            <div className="text-center mt-8 text-gray-500 text-sm">
+              <p>{t.footer.about}</p>
+              <p className="mt-1">{t.footer.saving(keyHint('quit'))}</p>
+              <p className="mt-1">{t.footer.keys(keyHint('ping'), keyHint('up'), keyHint('down'), keyHint('pause'))}</p>
+            </div>
+          )}
         </div>
       </div>
-    </div>
+    </I18nContext.Provider>
   );
 }
 
@@ -0,0 +1,256 @@
+import type { EchoKind } from '../game/types';
+
+interface EchoReturn {
+  // -1 (far left of the playfield) to 1 (far right)
+  pan: number;
+  // Vertical offset of the obstacle from the player, -1 (above) to 1 (below)
+  verticalOffset: number;
+  // 0 (touching the player) to 1 (edge of the sonar range)
+  distance: number;
+}
+
+interface SpatialReturn {
+  // Where the obstacle is from the player, in half playfield heights:
+  // ahead is negative behind the player, below negative above them
+  ahead: number;
+  below: number;
+  // Seconds the echo takes to travel back to the player
+  delay: number;
+  // Solid obstacles ring bright, phantoms hollow and pickups chirp upwards
+  kind: 'solid' | 'phantom' | 'pickup';
+}
+
+// Narrow abilities sound higher, the long pulse lower and longer
+const PING_SOUNDS: Record<EchoKind, { frequency: number; duration: number }> = {
+  ping: { frequency: 1200, duration: 0.35 },
+  cone: { frequency: 1800, duration: 0.2 },
+  pulse: { frequency: 500, duration: 0.9 }
+};
+const RETURN_BASE_FREQUENCY = 660;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Small Web Audio synth for the sonar. Every sound is generated on the fly so
+// there are no assets to load, and the context is only created on the first
+// sound so browsers that require a user gesture are happy.
+export class SonarAudio {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private enabled = true;
+  private volume = 0.7;
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    this.applyMasterGain();
+  }
+
+  setVolume(volume: number) {
+    this.volume = clamp(volume, 0, 1);
+    this.applyMasterGain();
+  }
+
+  playPing(kind: EchoKind = 'ping') {
+    const ctx = this.getContext();
+    if (!ctx || !this.master) return;
+
+    const { frequency, duration } = PING_SOUNDS[kind];
+    const now = ctx.currentTime;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(frequency, now);
+    osc.frequency.exponentialRampToValueAtTime(frequency * 0.6, now + duration * 0.7);
+    gain.gain.setValueAtTime(0.0001, now);
+    gain.gain.exponentialRampToValueAtTime(0.5, now + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, now + duration);
+
+    osc.connect(gain).connect(this.master);
+    osc.start(now);
+    osc.stop(now + duration + 0.05);
+  }
+
+  // The return blip carries the obstacle's position: higher pitch means the
+  // obstacle is above the player, pan follows its horizontal position and
+  // closer obstacles are louder.
+  playEchoReturn({ pan, verticalOffset, distance }: EchoReturn) {
+    const ctx = this.getContext();
+    if (!ctx || !this.master) return;
+
+    const now = ctx.currentTime;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+
+    const frequency = RETURN_BASE_FREQUENCY * Math.pow(2, -clamp(verticalOffset, -1, 1));
+    const peak = 0.05 + 0.35 * (1 - clamp(distance, 0, 1));
+
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(frequency, now);
+    panner.pan.setValueAtTime(clamp(pan, -1, 1), now);
+    gain.gain.setValueAtTime(0.0001, now);
+    gain.gain.exponentialRampToValueAtTime(peak, now + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, now + 0.12);
+
+    osc.connect(gain).connect(panner).connect(this.master);
+    osc.start(now);
+    osc.stop(now + 0.15);
+  }
+
+  // Audio-only returns come from where the obstacle is: the panner places
+  // it in front of the listener and fades it with distance, it arrives after
+  // the round trip and its pitch rises the further above the player it sits.
+  playSpatialReturn({ ahead, below, delay, kind }: SpatialReturn) {
+    const ctx = this.getContext();
+    if (!ctx || !this.master) return;
+
+    const start = ctx.currentTime + Math.max(0, delay);
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const panner = new PannerNode(ctx, {
+      panningModel: 'HRTF',
+      distanceModel: 'inverse',
+      refDistance: 1,
+      rolloffFactor: 1,
+      positionX: 0,
+      positionY: -below,
+      positionZ: -ahead
+    });
+
+    const frequency = RETURN_BASE_FREQUENCY * Math.pow(2, -clamp(below, -1, 1));
+    osc.type = kind === 'solid' ? 'triangle' : 'sine';
+    osc.frequency.setValueAtTime(frequency, start);
+    if (kind === 'pickup') {
+      osc.frequency.exponentialRampToValueAtTime(frequency * 2, start + 0.12);
+    }
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(kind === 'phantom' ? 0.25 : 0.6, start + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.15);
+
+    osc.connect(gain).connect(panner).connect(this.master);
+    osc.start(start);
+    osc.stop(start + 0.2);
+  }
+
+  playCollision() {
+    const ctx = this.getContext();
+    if (!ctx || !this.master) return;
+
+    const now = ctx.currentTime;
+    const duration = 0.5;
+    const buffer = ctx.createBuffer(1, Math.floor(ctx.sampleRate * duration), ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (Math.random() * 2 - 1) * (1 - i / data.length);
+    }
+
+    const noise = ctx.createBufferSource();
+    const filter = ctx.createBiquadFilter();
+    const gain = ctx.createGain();
+    const thud = ctx.createOscillator();
+    const thudGain = ctx.createGain();
+
+    noise.buffer = buffer;
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(1800, now);
+    filter.frequency.exponentialRampToValueAtTime(200, now + duration);
+    gain.gain.setValueAtTime(0.6, now);
+    gain.gain.exponentialRampToValueAtTime(0.0001, now + duration);
+
+    thud.type = 'sine';
+    thud.frequency.setValueAtTime(140, now);
+    thud.frequency.exponentialRampToValueAtTime(40, now + 0.3);
+    thudGain.gain.setValueAtTime(0.7, now);
+    thudGain.gain.exponentialRampToValueAtTime(0.0001, now + 0.3);
+
+    noise.connect(filter).connect(gain).connect(this.master);
+    thud.connect(thudGain).connect(this.master);
+    noise.start(now);
+    thud.start(now);
+    thud.stop(now + 0.3);
+  }
+
+  // Rising two-note chime for a collected power-up
+  playPickup() {
+    const ctx = this.getContext();
+    const master = this.master;
+    if (!ctx || !master) return;
+
+    const now = ctx.currentTime;
+    [880, 1320].forEach((frequency, index) => {
+      const start = now + index * 0.07;
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(frequency, start);
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.18);
+
+      osc.connect(gain).connect(master);
+      osc.start(start);
+      osc.stop(start + 0.2);
+    });
+  }
+
+  // Glassy crack when a shield takes a hit
+  playShieldBreak() {
+    const ctx = this.getContext();
+    if (!ctx || !this.master) return;
+
+    const now = ctx.currentTime;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(1600, now);
+    osc.frequency.exponentialRampToValueAtTime(300, now + 0.25);
+    gain.gain.setValueAtTime(0.25, now);
+    gain.gain.exponentialRampToValueAtTime(0.0001, now + 0.3);
+
+    osc.connect(gain).connect(this.master);
+    osc.start(now);
+    osc.stop(now + 0.3);
+  }
+
+  playClick() {
+    const ctx = this.getContext();
+    if (!ctx || !this.master) return;
+
+    const now = ctx.currentTime;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(520, now);
+    gain.gain.setValueAtTime(0.08, now);
+    gain.gain.exponentialRampToValueAtTime(0.0001, now + 0.05);
+
+    osc.connect(gain).connect(this.master);
+    osc.start(now);
+    osc.stop(now + 0.06);
+  }
+
+  private getContext(): AudioContext | null {
+    if (!this.enabled || this.volume === 0) return null;
+    if (typeof window === 'undefined' || !window.AudioContext) return null;
+
+    if (!this.ctx) {
+      this.ctx = new AudioContext();
+      this.master = this.ctx.createGain();
+      this.master.connect(this.ctx.destination);
+      this.applyMasterGain();
+    }
+    if (this.ctx.state === 'suspended') {
+      void this.ctx.resume();
+    }
+    return this.ctx;
+  }
+
+  private applyMasterGain() {
+    if (!this.ctx || !this.master) return;
+    const target = this.enabled ? this.volume : 0;
+    this.master.gain.setTargetAtTime(target, this.ctx.currentTime, 0.02);
+  }
+}
@@ -0,0 +1,102 @@
+import { useEffect, useRef } from 'react';
+import { Award, CheckCircle2, X } from 'lucide-react';
+import { ACHIEVEMENTS } from '../game/achievements';
+import type { Achievement, AchievementProgress } from '../game/achievements';
+import { useI18n } from '../i18n';
+import type { I18n } from '../i18n';
+
+const TOAST_MS = 4000;
+
+const formatProgress = ({ t, formatNumber, formatMultiplier }: I18n, achievement: Achievement, value: number) => {
+  if (achievement.unit === 'seconds') return t.units.seconds(formatNumber(Math.floor(value)));
+  if (achievement.unit === 'multiplier') return formatMultiplier(value);
+  return formatNumber(Math.floor(value));
+};
+
+interface AchievementsScreenProps {
+  progress: AchievementProgress;
+  onClose: () => void;
+}
+
+export function AchievementsScreen({ progress, onClose }: AchievementsScreenProps) {
+  const i18n = useI18n();
+  const { t, formatDate } = i18n;
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => progress.unlocked[achievement.id]).length;
+
+  return (
+    <div className="m-auto text-center max-w-lg w-full p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-3xl font-bold text-amber-400 flex items-center gap-2">
+          <Award size={28} />
+          {t.achievementsScreen.title}
+        </h2>
+        <button onClick={onClose} aria-label={t.achievementsScreen.close} className="text-gray-400 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+      </div>
+      <p className="text-gray-400 text-sm text-left mb-4">
+        {t.achievementsScreen.unlocked(unlockedCount, ACHIEVEMENTS.length)}
+      </p>
+
+      <div className="space-y-2">
+        {ACHIEVEMENTS.map(achievement => {
+          const unlockedAt = progress.unlocked[achievement.id];
+          const value = Math.min(progress.progress[achievement.id] ?? 0, achievement.target);
+          const { name, description } = t.achievements[achievement.id];
+          return (
+            <div
+              key={achievement.id}
+              className={`bg-gray-800 p-3 rounded-lg text-left ${unlockedAt ? '' : 'opacity-80'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className={`font-semibold flex items-center gap-2 ${unlockedAt ? 'text-amber-300' : ''}`}>
+                  {name}
+                  {unlockedAt && <CheckCircle2 size={16} className="text-green-400" />}
+                </span>
+                <span className="text-xs text-gray-400 tabular-nums">
+                  {unlockedAt
+                    ? formatDate(unlockedAt)
+                    : `${formatProgress(i18n, achievement, value)} / ${formatProgress(i18n, achievement, achievement.target)}`}
+                </span>
+              </div>
+              <p className="text-xs text-gray-400">{description}</p>
+              <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden mt-2">
+                <div
+                  className={`h-full ${unlockedAt ? 'bg-green-400' : 'bg-amber-400'}`}
+                  style={{ width: `${unlockedAt ? 100 : (value / achievement.target) * 100}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface AchievementToastProps {
+  achievement: Achievement;
+  onDone: () => void;
+}
+
+// Announces a fresh unlock over the playfield, then goes away by itself
+export function AchievementToast({ achievement, onDone }: AchievementToastProps) {
+  const { t } = useI18n();
+  // The timer runs once per toast, however often the parent re-renders
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+  useEffect(() => {
+    const timer = setTimeout(() => onDoneRef.current(), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <div role="status" className="bg-gray-900 bg-opacity-95 border border-amber-500 rounded-lg px-4 py-2 flex items-center gap-3 shadow-lg animate-pulse">
+      <Award size={24} className="text-amber-400" />
+      <div className="text-left">
+        <p className="text-xs text-amber-300 uppercase tracking-wide">{t.achievementsScreen.toast}</p>
+        <p className="font-semibold">{t.achievements[achievement.id].name}</p>
+      </div>
+    </div>
+  );
+}
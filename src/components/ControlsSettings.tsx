@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { BINDABLE_ACTIONS, findBindingConflict } from '../input/InputManager';
+import type { BindableAction, InputManager, KeyBindings } from '../input/InputManager';
+import { getKeyLabel, loadKeyboardLayout } from '../input/keyLabels';
+import { useI18n } from '../i18n';
+
+interface ControlsSettingsProps {
+  bindings: KeyBindings;
+  controls: InputManager;
+  onChange: (bindings: KeyBindings) => void;
+}
+
+interface PendingConflict {
+  action: BindableAction;
+  code: string;
+  owner: BindableAction;
+}
+
+export function ControlsSettings({ bindings, controls, onChange }: ControlsSettingsProps) {
+  const { t } = useI18n();
+  const [capturing, setCapturing] = useState<BindableAction | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+  const [, setLayoutLoaded] = useState(false);
+
+  useEffect(() => {
+    void loadKeyboardLayout().then(() => setLayoutLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!capturing) return;
+
+    return controls.captureNextKey(code => {
+      setCapturing(null);
+      if (bindings[capturing].includes(code)) return;
+
+      const owner = findBindingConflict(bindings, code, capturing);
+      if (owner) {
+        setConflict({ action: capturing, code, owner });
+      } else {
+        onChange({ ...bindings, [capturing]: [...bindings[capturing], code] });
+      }
+    });
+  }, [capturing, bindings, controls, onChange]);
+
+  const removeBinding = (action: BindableAction, code: string) => {
+    onChange({ ...bindings, [action]: bindings[action].filter(bound => bound !== code) });
+  };
+
+  // Moves the key from its current action to the new one
+  const resolveConflict = () => {
+    if (!conflict) return;
+    const { action, code, owner } = conflict;
+    onChange({
+      ...bindings,
+      [owner]: bindings[owner].filter(bound => bound !== code),
+      [action]: [...bindings[action], code]
+    });
+    setConflict(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {BINDABLE_ACTIONS.map(action => (
+        <div key={action} className="flex items-center justify-between gap-2">
+          <span className="text-sm text-gray-300">{t.actions[action]}</span>
+          <div className="flex flex-wrap justify-end items-center gap-1">
+            {bindings[action].map(code => (
+              <span key={code} className="flex items-center gap-1 bg-gray-700 px-2 py-1 rounded text-xs font-mono">
+                {getKeyLabel(code)}
+                <button
+                  onClick={() => removeBinding(action, code)}
+                  disabled={bindings[action].length === 1}
+                  title={t.controls.removeBinding}
+                  aria-label={t.controls.removeKey(getKeyLabel(code), t.actions[action])}
+                  className="text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+            <button
+              onClick={() => {
+                setConflict(null);
+                setCapturing(capturing === action ? null : action);
+              }}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${
+                capturing === action ? 'bg-blue-600 text-white animate-pulse' : 'bg-gray-800 text-gray-400 hover:bg-gray-600'
+              }`}
+            >
+              {capturing === action ? t.controls.pressKey : <><Plus size={12} /> {t.controls.add}</>}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {conflict && (
+        <div className="bg-yellow-900 bg-opacity-40 border border-yellow-600 rounded-lg p-3 text-sm text-left">
+          <p className="text-yellow-300 mb-2">
+            {t.controls.conflict(getKeyLabel(conflict.code), t.actions[conflict.owner])}
+            {bindings[conflict.owner].length === 1 && ` ${t.controls.onlyKey}`}
+          </p>
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => setConflict(null)}
+              className="bg-gray-600 hover:bg-gray-700 px-3 py-1 rounded transition-colors"
+            >
+              {t.common.cancel}
+            </button>
+            <button
+              onClick={resolveConflict}
+              disabled={bindings[conflict.owner].length === 1}
+              className="bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-1 rounded transition-colors"
+            >
+              {t.controls.moveTo(t.actions[conflict.action])}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Download, Save, Trash2, Upload } from 'lucide-react';
+import {
+  DIFFICULTY_FIELDS,
+  DIFFICULTY_RANGES,
+  exportCustomPreset,
+  importCustomPreset
+} from '../game/difficulty';
+import type { CustomDifficultyPreset } from '../game/difficulty';
+import type { DifficultySettings } from '../game/types';
+import { useI18n } from '../i18n';
+
+interface CustomDifficultyEditorProps {
+  value: DifficultySettings;
+  presets: CustomDifficultyPreset[];
+  onChange: (value: DifficultySettings) => void;
+  onPresetsChange: (presets: CustomDifficultyPreset[]) => void;
+}
+
+export function CustomDifficultyEditor({ value, presets, onChange, onPresetsChange }: CustomDifficultyEditorProps) {
+  const { t, formatErrors } = useI18n();
+  const [presetName, setPresetName] = useState('');
+  const [presetJson, setPresetJson] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      setMessage({ text: t.customDifficulty.nameRequired, error: true });
+      return;
+    }
+    onPresetsChange([...presets.filter(preset => preset.name !== name), { name, settings: value }]);
+    setMessage({ text: t.customDifficulty.saved(name), error: false });
+  };
+
+  const exportPreset = (preset: CustomDifficultyPreset) => {
+    const json = exportCustomPreset(preset);
+    setPresetJson(json);
+    void navigator.clipboard?.writeText(json).catch(() => undefined);
+    setMessage({ text: t.customDifficulty.exported(preset.name), error: false });
+  };
+
+  const importPreset = () => {
+    const result = importCustomPreset(presetJson, t.customDifficulty.importedName);
+    if ('errors' in result) {
+      setMessage({ text: t.customDifficulty.importFailed(formatErrors(result.errors)), error: true });
+      return;
+    }
+    const { preset } = result;
+    onPresetsChange([...presets.filter(existing => existing.name !== preset.name), preset]);
+    onChange(preset.settings);
+    setPresetName(preset.name);
+    setMessage({ text: t.customDifficulty.imported(preset.name), error: false });
+  };
+
+  return (
+    <div className="mt-4 text-sm text-left bg-gray-800 p-4 rounded-lg space-y-3">
+      {DIFFICULTY_FIELDS.map(field => {
+        const { min, max, step, unit } = DIFFICULTY_RANGES[field];
+        return (
+          <label key={field} className="block">
+            <div className="flex justify-between text-gray-300">
+              <span>{t.difficultyFields[field]}</span>
+              <span className="font-mono text-blue-300">{value[field]}{unit ?? ''}</span>
+            </div>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={value[field]}
+              onChange={e => onChange({ ...value, [field]: Number(e.target.value) })}
+              className="w-full accent-blue-500"
+            />
+          </label>
+        );
+      })}
+
+      <div className="flex gap-2 pt-2 border-t border-gray-700">
+        <input
+          type="text"
+          value={presetName}
+          onChange={e => setPresetName(e.target.value)}
+          placeholder={t.customDifficulty.presetName}
+          maxLength={32}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+        />
+        <button
+          onClick={savePreset}
+          className="bg-green-700 hover:bg-green-600 px-3 py-1 rounded flex items-center gap-1 transition-colors"
+        >
+          <Save size={14} />
+          {t.common.save}
+        </button>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="space-y-1">
+          {presets.map(preset => (
+            <div key={preset.name} className="flex items-center justify-between bg-gray-900 rounded px-2 py-1">
+              <button
+                onClick={() => {
+                  onChange(preset.settings);
+                  setPresetName(preset.name);
+                }}
+                className="text-blue-300 hover:text-blue-200 truncate"
+                title={t.customDifficulty.loadPreset}
+              >
+                {preset.name}
+              </button>
+              <div className="flex gap-2 text-gray-400">
+                <button onClick={() => exportPreset(preset)} title={t.customDifficulty.exportPreset} className="hover:text-white">
+                  <Download size={14} />
+                </button>
+                <button
+                  onClick={() => onPresetsChange(presets.filter(existing => existing.name !== preset.name))}
+                  title={t.customDifficulty.deletePreset}
+                  className="hover:text-red-400"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <textarea
+          value={presetJson}
+          onChange={e => setPresetJson(e.target.value)}
+          placeholder={t.customDifficulty.importPlaceholder}
+          rows={3}
+          className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 font-mono text-xs"
+        />
+        <button
+          onClick={importPreset}
+          disabled={!presetJson.trim()}
+          className="bg-gray-600 hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed px-3 py-1 rounded flex items-center gap-1 transition-colors"
+        >
+          <Upload size={14} />
+          {t.common.import}
+        </button>
+      </div>
+
+      {message && (
+        <p className={message.error ? 'text-red-400' : 'text-green-400'}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef } from 'react';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '../game/constants';
+import type { GameState } from '../game/engine';
+import { getGhostY } from '../game/ghost';
+import type { GhostRun } from '../game/ghost';
+import { drawGame } from '../render/canvasRenderer';
+import type { Palette } from '../render/palettes';
+import { fitViewport } from '../render/viewport';
+
+interface GameCanvasProps {
+  // Called every animation frame; the canvas only redraws when it changes
+  getState: () => GameState;
+  collisionFlash: boolean;
+  partialReveal: boolean;
+  palette: Palette;
+  reducedMotion: boolean;
+  audioOnly?: boolean;
+  // Personal best to draw alongside the player
+  ghost?: GhostRun | null;
+}
+
+// Fills its positioned parent and letterboxes the world inside it, drawing
+// at the display's pixel density.
+export function GameCanvas({
+  getState,
+  collisionFlash,
+  partialReveal,
+  palette,
+  reducedMotion,
+  audioOnly = false,
+  ghost = null
+}: GameCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let frameId = 0;
+    let lastDrawn: GameState | null = null;
+    let pixelRatio = 1;
+    let viewport = fitViewport(WORLD_WIDTH, WORLD_HEIGHT);
+
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect();
+      pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = Math.max(1, Math.round(rect.width * pixelRatio));
+      canvas.height = Math.max(1, Math.round(rect.height * pixelRatio));
+      viewport = fitViewport(rect.width, rect.height);
+      lastDrawn = null;
+    };
+
+    const frame = () => {
+      const state = getState();
+      if (state !== lastDrawn) {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+        const scale = viewport.scale * pixelRatio;
+        ctx.setTransform(scale, 0, 0, scale, viewport.offsetX * pixelRatio, viewport.offsetY * pixelRatio);
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+        ctx.clip();
+        drawGame(ctx, state, {
+          collisionFlash,
+          partialReveal,
+          palette,
+          reducedMotion,
+          audioOnly,
+          ghostY: ghost && getGhostY(ghost, state.time)
+        });
+        ctx.restore();
+        lastDrawn = state;
+      }
+      frameId = requestAnimationFrame(frame);
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    window.addEventListener('resize', resize);
+    frameId = requestAnimationFrame(frame);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      observer.disconnect();
+      window.removeEventListener('resize', resize);
+    };
+  }, [getState, collisionFlash, partialReveal, palette, reducedMotion, audioOnly, ghost]);
+
+  // Screen readers get the game through the HUD and its announcements instead
+  return <canvas ref={canvasRef} aria-hidden="true" className="absolute inset-0 w-full h-full block" />;
+}
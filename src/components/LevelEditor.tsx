@@ -0,0 +1,531 @@
+import { useEffect, useRef, useState } from 'react';
+import { Copy, Flag, Play, Plus, SkipForward, Trash2, Upload, X } from 'lucide-react';
+import { OBSTACLE_HEIGHT, OBSTACLE_WIDTH, WORLD_HEIGHT, WORLD_WIDTH } from '../game/constants';
+import { ALL_FACES } from '../game/echoes';
+import { createLevelObstacle, exportLevel, parseLevel } from '../game/levels';
+import type { Level, LevelObstacle, SpeedPoint } from '../game/levels';
+import type { Obstacle, ObstacleKind } from '../game/types';
+import { useI18n } from '../i18n';
+import { drawEditor, EDITOR_HANDLE } from '../render/canvasRenderer';
+import { fitViewport, screenToWorld } from '../render/viewport';
+
+interface LevelEditorProps {
+  level: Level;
+  // Course position at the left edge of the view
+  scroll: number;
+  onChange: (level: Level) => void;
+  onScrollChange: (scroll: number) => void;
+  // Called with a validated copy of the level
+  onPlaytest: (level: Level, fromDistance: number) => void;
+  onClose: () => void;
+}
+
+const KINDS: ObstacleKind[] = ['block', 'moving', 'pillar', 'wall', 'phantom'];
+
+// What a freshly placed obstacle of each kind looks like
+const KIND_DEFAULTS: Record<ObstacleKind, Omit<LevelObstacle, 'kind' | 'x' | 'y'> & { width: number; height: number }> = {
+  block: { width: OBSTACLE_WIDTH, height: OBSTACLE_HEIGHT },
+  moving: { width: OBSTACLE_WIDTH, height: OBSTACLE_HEIGHT, amplitude: 60, periodMs: 2000, phase: 0 },
+  pillar: { width: OBSTACLE_WIDTH, height: 200 },
+  wall: { width: OBSTACLE_WIDTH, height: 150 },
+  phantom: { width: OBSTACLE_WIDTH, height: OBSTACLE_HEIGHT }
+};
+
+// Drags snap to this many world px
+const SNAP = 5;
+// Room to scroll past the finish line or the last obstacle
+const SCROLL_PADDING = 200;
+
+const snap = (value: number) => Math.round(value / SNAP) * SNAP;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface Drag {
+  mode: 'move' | 'resize';
+  index: number;
+  // Pointer position relative to the obstacle's top left when the drag began
+  offsetX: number;
+  offsetY: number;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  step?: number;
+  min?: number;
+  onChange: (value: number) => void;
+}
+
+function NumberField({ label, value, step = 1, min, onChange }: NumberFieldProps) {
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-gray-400">{label}</span>
+      <input
+        type="number"
+        value={value ?? ''}
+        step={step}
+        min={min}
+        onChange={e => {
+          if (e.target.value !== '' && Number.isFinite(Number(e.target.value))) {
+            onChange(Number(e.target.value));
+          }
+        }}
+        className="w-24 bg-gray-900 border border-gray-600 rounded px-2 py-0.5 text-right"
+      />
+    </label>
+  );
+}
+
+export function LevelEditor({ level, scroll, onChange, onScrollChange, onPlaytest, onClose }: LevelEditorProps) {
+  const { t, formatErrors } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0, pixelRatio: 1 });
+  const [tool, setTool] = useState<ObstacleKind>('block');
+  const [selected, setSelected] = useState<number | null>(null);
+  const [levelJson, setLevelJson] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const courseEnd = Math.max(level.finishX, ...level.obstacles.map(obstacle => obstacle.x + (obstacle.width ?? OBSTACLE_WIDTH)));
+  const maxScroll = Math.max(0, courseEnd + SCROLL_PADDING - WORLD_WIDTH);
+  const viewport = fitViewport(size.width, size.height);
+  const selectedObstacle = selected === null ? undefined : level.obstacles[selected];
+
+  // Same model and drawing as in play, shown fully lit at their resting height
+  const viewObstacles: Obstacle[] = level.obstacles.map((placement, index) => ({
+    ...createLevelObstacle(placement, index, scroll),
+    y: placement.y,
+    revealed: true,
+    revealTimer: Infinity,
+    revealedFaces: ALL_FACES
+  }));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect();
+      setSize({ width: rect.width, height: rect.height, pixelRatio: window.devicePixelRatio || 1 });
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    canvas.width = Math.max(1, Math.round(size.width * size.pixelRatio));
+    canvas.height = Math.max(1, Math.round(size.height * size.pixelRatio));
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const scale = viewport.scale * size.pixelRatio;
+    ctx.setTransform(scale, 0, 0, scale, viewport.offsetX * size.pixelRatio, viewport.offsetY * size.pixelRatio);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+    ctx.clip();
+    drawEditor(ctx, { obstacles: viewObstacles, selectedId: selected, scroll, finishX: level.finishX });
+    ctx.restore();
+  });
+
+  // Wheel scrolls the timeline instead of the page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      onScrollChange(clamp(scroll + e.deltaX + e.deltaY, 0, maxScroll));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [scroll, maxScroll, onScrollChange]);
+
+  const updateObstacles = (obstacles: LevelObstacle[]) => onChange({ ...level, obstacles });
+
+  const updateObstacle = (index: number, patch: Partial<LevelObstacle>) => {
+    updateObstacles(level.obstacles.map((obstacle, i) => (i === index ? { ...obstacle, ...patch } : obstacle)));
+  };
+
+  const deleteSelected = () => {
+    if (selected === null) return;
+    updateObstacles(level.obstacles.filter((_, i) => i !== selected));
+    setSelected(null);
+  };
+
+  const toWorld = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return screenToWorld(viewport, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  // Grab the selection's resize handle, else the topmost obstacle under the
+  // pointer, else place a new obstacle of the current kind there
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toWorld(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const selectedView = selected === null ? undefined : viewObstacles[selected];
+    if (
+      selected !== null && selectedView &&
+      Math.abs(point.x - (selectedView.x + selectedView.width)) <= EDITOR_HANDLE &&
+      Math.abs(point.y - (selectedView.y + selectedView.height)) <= EDITOR_HANDLE
+    ) {
+      dragRef.current = { mode: 'resize', index: selected, offsetX: 0, offsetY: 0 };
+      return;
+    }
+
+    let hit = -1;
+    viewObstacles.forEach((obstacle, index) => {
+      if (
+        point.x >= obstacle.x && point.x <= obstacle.x + obstacle.width &&
+        point.y >= obstacle.y && point.y <= obstacle.y + obstacle.height
+      ) {
+        hit = index;
+      }
+    });
+    if (hit >= 0) {
+      setSelected(hit);
+      dragRef.current = { mode: 'move', index: hit, offsetX: point.x - viewObstacles[hit].x, offsetY: point.y - viewObstacles[hit].y };
+      return;
+    }
+
+    const defaults = KIND_DEFAULTS[tool];
+    const anchored = tool === 'pillar' || tool === 'wall';
+    const y = anchored
+      ? (point.y < WORLD_HEIGHT / 2 ? 0 : WORLD_HEIGHT - defaults.height)
+      : clamp(snap(point.y - defaults.height / 2), 0, WORLD_HEIGHT - defaults.height);
+    const placed: LevelObstacle = { kind: tool, x: Math.max(0, snap(point.x + scroll - defaults.width / 2)), y, ...defaults };
+    updateObstacles([...level.obstacles, placed]);
+    setSelected(level.obstacles.length);
+    dragRef.current = { mode: 'move', index: level.obstacles.length, offsetX: point.x + scroll - placed.x, offsetY: point.y - y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const obstacle = drag && level.obstacles[drag.index];
+    if (!drag || !obstacle) return;
+
+    const point = toWorld(e);
+    const height = obstacle.height ?? KIND_DEFAULTS[obstacle.kind].height;
+    if (drag.mode === 'move') {
+      updateObstacle(drag.index, {
+        x: Math.max(0, snap(point.x + scroll - drag.offsetX)),
+        y: clamp(snap(point.y - drag.offsetY), 0, WORLD_HEIGHT - height)
+      });
+    } else {
+      updateObstacle(drag.index, {
+        width: Math.max(SNAP * 2, snap(point.x + scroll - obstacle.x)),
+        height: clamp(snap(point.y - obstacle.y), SNAP * 2, WORLD_HEIGHT - obstacle.y)
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      deleteSelected();
+    }
+  };
+
+  const updateSpeedPoint = (index: number, patch: Partial<SpeedPoint>) => {
+    onChange({ ...level, speedCurve: level.speedCurve.map((point, i) => (i === index ? { ...point, ...patch } : point)) });
+  };
+
+  const playtest = (fromDistance: number) => {
+    const result = parseLevel(level);
+    if ('errors' in result) {
+      setMessage({ text: t.levelEditor.cantPlaytest(formatErrors(result.errors)), error: true });
+      return;
+    }
+    onPlaytest(result.level, fromDistance);
+  };
+
+  const exportJson = () => {
+    const json = exportLevel(level);
+    setLevelJson(json);
+    void navigator.clipboard?.writeText(json).catch(() => undefined);
+    setMessage({ text: t.levelEditor.exported, error: false });
+  };
+
+  const importJson = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(levelJson);
+    } catch {
+      setMessage({ text: t.levelEditor.invalidJson, error: true });
+      return;
+    }
+    const result = parseLevel(parsed);
+    if ('errors' in result) {
+      setMessage({ text: t.levelEditor.importFailed(formatErrors(result.errors)), error: true });
+      return;
+    }
+    onChange(result.level);
+    onScrollChange(0);
+    setSelected(null);
+    setMessage({ text: t.levelEditor.imported(result.level.name), error: false });
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-700 p-4 space-y-4 text-sm">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold text-green-400 flex items-center gap-2">
+          <Flag size={24} />
+          {t.levelEditor.title}
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => playtest(0)}
+            className="bg-green-700 hover:bg-green-600 px-3 py-1.5 rounded-lg transition-colors flex items-center gap-1"
+          >
+            <Play size={16} />
+            {t.levelEditor.playtest}
+          </button>
+          <button
+            onClick={() => playtest(scroll)}
+            title={t.levelEditor.fromHereHint}
+            className="bg-green-900 hover:bg-green-800 px-3 py-1.5 rounded-lg transition-colors flex items-center gap-1"
+          >
+            <SkipForward size={16} />
+            {t.levelEditor.fromHere}
+          </button>
+          <button onClick={onClose} title={t.levelEditor.close} aria-label={t.levelEditor.close} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-400">{t.levelEditor.place}</span>
+        {KINDS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => setTool(kind)}
+            className={`px-3 py-1 rounded transition-colors ${
+              tool === kind ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {t.obstacles[kind]}
+          </button>
+        ))}
+        <button
+          onClick={deleteSelected}
+          disabled={selected === null}
+          className="ml-auto bg-red-700 hover:bg-red-600 disabled:opacity-40 disabled:cursor-not-allowed px-3 py-1 rounded flex items-center gap-1 transition-colors"
+        >
+          <Trash2 size={14} />
+          {t.levelEditor.delete}
+        </button>
+      </div>
+
+      <div className="relative w-full" style={{ aspectRatio: `${WORLD_WIDTH} / ${WORLD_HEIGHT}` }}>
+        <canvas
+          ref={canvasRef}
+          tabIndex={0}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onKeyDown={handleKeyDown}
+          className="absolute inset-0 w-full h-full block rounded touch-none cursor-crosshair outline-none"
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="text-gray-400 tabular-nums w-24">{Math.round(scroll)}px</span>
+        <input
+          type="range"
+          min={0}
+          max={maxScroll}
+          value={scroll}
+          onChange={e => onScrollChange(Number(e.target.value))}
+          className="flex-1 accent-green-500"
+        />
+      </div>
+      <p className="text-gray-500 text-xs">
+        {t.levelEditor.help}
+      </p>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="bg-gray-800 p-3 rounded-lg space-y-2">
+          <h3 className="font-semibold">{t.levelEditor.level}</h3>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-gray-400">{t.levelEditor.name}</span>
+            <input
+              type="text"
+              value={level.name}
+              onChange={e => onChange({ ...level, name: e.target.value })}
+              className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-0.5"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-gray-400">{t.levelEditor.id}</span>
+            <input
+              type="text"
+              value={level.id}
+              onChange={e => onChange({ ...level, id: e.target.value })}
+              className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-0.5 font-mono"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-400">{t.levelEditor.description}</span>
+            <input
+              type="text"
+              value={level.description ?? ''}
+              onChange={e => onChange({ ...level, description: e.target.value || undefined })}
+              className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-0.5"
+            />
+          </label>
+          <NumberField
+            label={t.levelEditor.echoCount}
+            value={level.echoBudget}
+            onChange={echoBudget => onChange({ ...level, echoBudget: Math.max(0, Math.round(echoBudget)) })}
+          />
+          <NumberField
+            label={t.levelEditor.finishLine}
+            value={level.finishX}
+            step={50}
+            onChange={finishX => onChange({ ...level, finishX })}
+          />
+
+          <div className="pt-2 border-t border-gray-700 space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold">{t.levelEditor.speed}</span>
+              <button
+                onClick={() => onChange({
+                  ...level,
+                  speedCurve: [...level.speedCurve, { distance: Math.round(scroll), speed: level.speedCurve[level.speedCurve.length - 1]?.speed ?? 2.5 }]
+                })}
+                title={t.levelEditor.addSpeedPoint}
+                aria-label={t.levelEditor.addSpeedPoint}
+                className="text-gray-400 hover:text-white"
+              >
+                <Plus size={16} />
+              </button>
+            </div>
+            {level.speedCurve.map((point, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <div className="flex-1 space-y-1">
+                  <NumberField
+                    label={t.levelEditor.pointDistance}
+                    value={point.distance}
+                    step={100}
+                    onChange={distance => updateSpeedPoint(index, { distance })}
+                  />
+                  <NumberField
+                    label={t.levelEditor.pointSpeed}
+                    value={point.speed}
+                    step={0.1}
+                    min={0.1}
+                    onChange={speed => updateSpeedPoint(index, { speed: Math.max(0.1, speed) })}
+                  />
+                </div>
+                <button
+                  onClick={() => onChange({ ...level, speedCurve: level.speedCurve.filter((_, i) => i !== index) })}
+                  disabled={level.speedCurve.length === 1}
+                  title={t.levelEditor.removeSpeedPoint}
+                  aria-label={t.levelEditor.removeSpeedPoint}
+                  className="text-gray-400 hover:text-red-400 disabled:opacity-30"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-gray-800 p-3 rounded-lg space-y-2">
+          <h3 className="font-semibold">{t.levelEditor.selected}</h3>
+          {selected !== null && selectedObstacle ? (
+            <>
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-gray-400">{t.levelEditor.kind}</span>
+                <select
+                  value={selectedObstacle.kind}
+                  onChange={e => updateObstacle(selected, { kind: e.target.value as ObstacleKind })}
+                  className="bg-gray-900 border border-gray-600 rounded px-2 py-0.5"
+                >
+                  {KINDS.map(kind => <option key={kind} value={kind}>{t.obstacles[kind]}</option>)}
+                </select>
+              </label>
+              <NumberField label="X" value={selectedObstacle.x} onChange={x => updateObstacle(selected, { x })} />
+              <NumberField label="Y" value={selectedObstacle.y} onChange={y => updateObstacle(selected, { y })} />
+              <NumberField
+                label={t.levelEditor.width}
+                value={selectedObstacle.width ?? KIND_DEFAULTS[selectedObstacle.kind].width}
+                onChange={width => updateObstacle(selected, { width })}
+              />
+              <NumberField
+                label={t.levelEditor.height}
+                value={selectedObstacle.height ?? KIND_DEFAULTS[selectedObstacle.kind].height}
+                onChange={height => updateObstacle(selected, { height })}
+              />
+              {selectedObstacle.kind === 'moving' && (
+                <>
+                  <NumberField
+                    label={t.levelEditor.swing}
+                    value={selectedObstacle.amplitude}
+                    onChange={amplitude => updateObstacle(selected, { amplitude })}
+                  />
+                  <NumberField
+                    label={t.levelEditor.period}
+                    value={selectedObstacle.periodMs}
+                    step={100}
+                    onChange={periodMs => updateObstacle(selected, { periodMs })}
+                  />
+                  <NumberField
+                    label={t.levelEditor.phase}
+                    value={selectedObstacle.phase}
+                    step={0.1}
+                    onChange={phase => updateObstacle(selected, { phase })}
+                  />
+                </>
+              )}
+            </>
+          ) : (
+            <p className="text-gray-500">{t.levelEditor.nothingSelected(level.obstacles.length)}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <textarea
+          value={levelJson}
+          onChange={e => setLevelJson(e.target.value)}
+          placeholder={t.levelEditor.importPlaceholder}
+          rows={4}
+          className="w-full bg-gray-950 border border-gray-600 rounded px-2 py-1 font-mono text-xs"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={exportJson}
+            className="bg-gray-600 hover:bg-gray-500 px-3 py-1 rounded flex items-center gap-1 transition-colors"
+          >
+            <Copy size={14} />
+            {t.common.export}
+          </button>
+          <button
+            onClick={importJson}
+            disabled={!levelJson.trim()}
+            className="bg-gray-600 hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed px-3 py-1 rounded flex items-center gap-1 transition-colors"
+          >
+            <Upload size={14} />
+            {t.common.import}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={message.error ? 'text-red-400' : 'text-green-400'}>{message.text}</p>
+      )}
+    </div>
+  );
+}
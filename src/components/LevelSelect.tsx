@@ -0,0 +1,70 @@
+import { CheckCircle2, Flag, Play, Timer, Volume2, X } from 'lucide-react';
+import type { Level, LevelRecord } from '../game/levels';
+import { useI18n } from '../i18n';
+
+interface LevelSelectProps {
+  levels: Level[];
+  records: Record<string, LevelRecord>;
+  onPlay: (level: Level) => void;
+  onClose: () => void;
+}
+
+export function LevelSelect({ levels, records, onPlay, onClose }: LevelSelectProps) {
+  const { t, formatLevelTime, levelName, levelDescription } = useI18n();
+  const completed = levels.filter(level => records[level.id]?.completions).length;
+
+  return (
+    <div className="m-auto text-center max-w-lg w-full p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-3xl font-bold text-green-400 flex items-center gap-2">
+          <Flag size={28} />
+          {t.levelSelect.title}
+        </h2>
+        <button onClick={onClose} aria-label={t.levelSelect.close} className="text-gray-400 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+      </div>
+      <p className="text-gray-400 text-sm text-left mb-4">
+        {t.levelSelect.completed(completed, levels.length)}
+      </p>
+
+      <div className="space-y-2">
+        {levels.map((level, index) => {
+          const record = records[level.id];
+          const description = levelDescription(level);
+          return (
+            <div key={level.id} className="flex items-center gap-3 bg-gray-800 p-3 rounded-lg text-left">
+              <span className="text-gray-500 font-bold w-6">{index + 1}</span>
+              <div className="flex-1 min-w-0">
+                <div className="font-semibold flex items-center gap-2">
+                  {levelName(level)}
+                  {record?.completions ? <CheckCircle2 size={16} className="text-green-400" /> : null}
+                </div>
+                {description && <p className="text-xs text-gray-400">{description}</p>}
+                <div className="text-xs text-gray-500 flex items-center gap-3 mt-1">
+                  <span className="flex items-center gap-1">
+                    <Volume2 size={12} />
+                    {t.levelSelect.pings(level.echoBudget)}
+                  </span>
+                  {record?.bestTimeMs != null && (
+                    <span className="flex items-center gap-1 text-yellow-400">
+                      <Timer size={12} />
+                      {t.levelSelect.best(formatLevelTime(record.bestTimeMs))}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => onPlay(level)}
+                title={t.levelSelect.play(levelName(level))}
+                className="bg-green-700 hover:bg-green-600 p-2 rounded-lg transition-colors"
+              >
+                <Play size={18} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import type { KeyboardEvent, ReactNode } from 'react';
+
+interface OverlayProps {
+  // Announced by screen readers when the overlay opens
+  label: string;
+  // How much of the game shows through, plus any stacking classes
+  className?: string;
+  children: ReactNode;
+}
+
+const FOCUSABLE = 'button:not([disabled]), a[href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Controls that use the arrow keys themselves
+const ownsArrowKeys = (element: Element | null) =>
+  element instanceof HTMLSelectElement ||
+  (element instanceof HTMLInputElement && element.type !== 'checkbox' && element.type !== 'button');
+
+// A screen over the game. It takes focus when it opens and hands it back when
+// it closes, keeps Tab inside itself, and lets the up and down arrows move
+// between its controls so every menu works from the keyboard.
+export function Overlay({ label, className = 'bg-opacity-95', children }: OverlayProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const overlay = ref.current;
+    (overlay?.querySelector<HTMLElement>(FOCUSABLE) ?? overlay)?.focus({ preventScroll: true });
+    return () => {
+      if (previous?.isConnected) previous.focus({ preventScroll: true });
+    };
+  }, []);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const overlay = ref.current;
+    if (!overlay) return;
+    const focusable = [...overlay.querySelectorAll<HTMLElement>(FOCUSABLE)];
+    if (focusable.length === 0) return;
+
+    const index = focusable.indexOf(document.activeElement as HTMLElement);
+    const focusAt = (next: number) => {
+      e.preventDefault();
+      focusable[(next + focusable.length) % focusable.length].focus();
+    };
+    if (e.key === 'Tab') {
+      if (e.shiftKey && index <= 0) focusAt(-1);
+      else if (!e.shiftKey && index === focusable.length - 1) focusAt(0);
+    } else if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && !ownsArrowKeys(document.activeElement)) {
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      focusAt(index === -1 ? Math.min(step, 0) : index + step);
+    }
+  };
+
+  return (
+    <div
+      ref={ref}
+      role="dialog"
+      aria-modal="true"
+      aria-label={label}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      className={`absolute inset-0 bg-black ${className} flex overflow-y-auto outline-none`}
+    >
+      {children}
+    </div>
+  );
+}
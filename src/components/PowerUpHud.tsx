@@ -0,0 +1,56 @@
+import { Eye, Hourglass, PlusCircle, Radar, Shield } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { POWER_UPS, TIMED_POWER_UPS } from '../game/powerUps';
+import type { PowerUpEffects } from '../game/powerUps';
+import type { PowerUpKind } from '../game/types';
+import { useI18n } from '../i18n';
+
+const ICONS: Record<PowerUpKind, LucideIcon> = {
+  extraPing: PlusCircle,
+  wideSonar: Radar,
+  slowTime: Hourglass,
+  shield: Shield,
+  lingeringReveal: Eye
+};
+
+interface PowerUpHudProps {
+  effects: PowerUpEffects;
+  // Power-up picked up a moment ago, announced briefly
+  notice: PowerUpKind | null;
+}
+
+// Active power-ups with the time each has left, plus the shield if it's up
+export function PowerUpHud({ effects, notice }: PowerUpHudProps) {
+  const { t } = useI18n();
+  const active = TIMED_POWER_UPS.filter(kind => effects.timers[kind] > 0);
+  if (active.length === 0 && !effects.shield && !notice) return null;
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      {active.map(kind => {
+        const Icon = ICONS[kind];
+        const { color, durationMs = 1 } = POWER_UPS[kind];
+        return (
+          <div key={kind} className="flex items-center gap-1" title={t.powerUps[kind]} style={{ color }}>
+            <Icon size={16} />
+            <div className="w-10 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+              <div className="h-full" style={{ width: `${(effects.timers[kind] / durationMs) * 100}%`, backgroundColor: color }} />
+            </div>
+            <span className="font-bold w-6">{t.units.seconds(String(Math.ceil(effects.timers[kind] / 1000)))}</span>
+          </div>
+        );
+      })}
+      {effects.shield && (
+        <div className="flex items-center gap-1" title={t.powerUps.shield} style={{ color: POWER_UPS.shield.color }}>
+          <Shield size={16} />
+          {t.powerUps.shield}
+        </div>
+      )}
+      {notice && (
+        <div className="font-bold animate-pulse" style={{ color: POWER_UPS[notice].color }}>
+          {notice === 'extraPing' ? t.hud.extraPing : t.hud.pickup(t.powerUps[notice])}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Home, Pause, Play, RotateCcw, Trophy } from 'lucide-react';
+import type { SonarAudio } from '../audio/SonarAudio';
+import { FIXED_STEP_MS, PLAYER_SIZE, WORLD_HEIGHT, WORLD_WIDTH } from '../game/constants';
+import { getPingCooldownProgress } from '../game/engine';
+import type { GameState } from '../game/engine';
+import { startFixedStepLoop } from '../game/loop';
+import { createRace, interpolateRace, RACE_PLAYERS, stepRace } from '../game/race';
+import type { RaceState } from '../game/race';
+import { randomSeed } from '../game/rng';
+import { formatDuration, getTotalPings } from '../game/stats';
+import type { DifficultySettings, GameMode } from '../game/types';
+import { useI18n } from '../i18n';
+import { RACER_KEYS } from '../input/InputManager';
+import type { InputManager } from '../input/InputManager';
+import { getKeyLabel } from '../input/keyLabels';
+import type { Palette } from '../render/palettes';
+import { GameCanvas } from './GameCanvas';
+import { Overlay } from './Overlay';
+
+interface RaceModeProps {
+  settings: DifficultySettings;
+  mode: Exclude<GameMode, 'levels'>;
+  controls: InputManager;
+  audio: SonarAudio;
+  partialReveal: boolean;
+  palette: Palette;
+  reducedMotion: boolean;
+  onExit: () => void;
+}
+
+const RACER_COLORS = ['text-blue-400', 'text-orange-400'];
+// Same throttle as the single-player HUD
+const HUD_UPDATE_MS = 100;
+
+// Two players on one screen, each steering through the same course with
+// their own sonar. Owns its loop and HUD; the menu only has to mount it.
+export function RaceMode({ settings, mode, controls, audio, partialReveal, palette, reducedMotion, onExit }: RaceModeProps) {
+  const { t, formatNumber } = useI18n();
+  const racerNames = Array.from({ length: RACE_PLAYERS }, (_, i) => t.race.player(i + 1));
+  const newRace = useCallback(() => createRace({ settings, mode, seed: randomSeed() }), [settings, mode]);
+  const [race, setRace] = useState<RaceState>(newRace);
+  const [paused, setPaused] = useState(false);
+  const raceRef = useRef(race);
+  const previousRaceRef = useRef(race);
+  const renderRaceRef = useRef(race);
+  const lastHudUpdateRef = useRef(0);
+  const running = race.status === 'running';
+
+  const runnerGetters = useMemo(
+    () => Array.from({ length: RACE_PLAYERS }, (_, i) => () => renderRaceRef.current.runners[i]),
+    []
+  );
+
+  const rematch = useCallback(() => {
+    const next = newRace();
+    raceRef.current = next;
+    previousRaceRef.current = next;
+    renderRaceRef.current = next;
+    setRace(next);
+    setPaused(false);
+  }, [newRace]);
+
+  // The racers' keys only belong to them while the race is on screen
+  useEffect(() => {
+    const inMenu = !running || paused;
+    controls.setRacing(!inMenu);
+    controls.setMenuOpen(inMenu);
+    return () => {
+      controls.setRacing(false);
+      controls.setMenuOpen(false);
+    };
+  }, [controls, running, paused]);
+
+  useEffect(() => {
+    return controls.onAction(action => {
+      if (action !== 'pause') return;
+      if (running) setPaused(prev => !prev);
+      else onExit();
+    });
+  }, [controls, running, onExit]);
+
+  // Pings, crashes and echo returns from every runner share the speakers
+  const playEvents = useCallback((runner: GameState) => {
+    for (const event of runner.events) {
+      if (event.type === 'ping') {
+        audio.playPing(event.kind);
+      } else if (event.type === 'echoHit') {
+        const { echo, obstacle } = event;
+        const centerX = obstacle.x + obstacle.width / 2;
+        const centerY = obstacle.y + obstacle.height / 2;
+        audio.playEchoReturn({
+          pan: (centerX / WORLD_WIDTH) * 2 - 1,
+          verticalOffset: (centerY - (runner.player.y + PLAYER_SIZE / 2)) / (WORLD_HEIGHT / 2),
+          distance: Math.hypot(echo.x - centerX, echo.y - centerY) / echo.maxRadius
+        });
+      } else if (event.type === 'collision') {
+        audio.playCollision();
+      }
+    }
+  }, [audio]);
+
+  useEffect(() => {
+    if (!running || paused) return;
+
+    return startFixedStepLoop({
+      update: () => {
+        const current = raceRef.current;
+        const inputs = current.runners.map((_, i) => ({
+          move: controls.getRacerMovement(i),
+          ping: controls.takeRacerPing(i) ? 'ping' as const : null
+        }));
+        const next = stepRace(current, inputs, FIXED_STEP_MS);
+        previousRaceRef.current = current;
+        raceRef.current = next;
+        next.runners.forEach((runner, i) => {
+          // A crashed runner's state stops changing, along with its events
+          if (current.runners[i].status === 'running') playEvents(runner);
+        });
+        return next.status === 'running';
+      },
+      render: alpha => {
+        const state = interpolateRace(previousRaceRef.current, raceRef.current, alpha);
+        renderRaceRef.current = state;
+        const now = performance.now();
+        if (state.status === 'running' && now - lastHudUpdateRef.current < HUD_UPDATE_MS) return;
+        lastHudUpdateRef.current = now;
+        setRace(state);
+      }
+    });
+  }, [running, paused, controls, playEvents]);
+
+  const keyHints = (racer: number) => {
+    const keys = RACER_KEYS[racer];
+    return t.race.keys(getKeyLabel(keys.up), getKeyLabel(keys.down), getKeyLabel(keys.ping));
+  };
+
+  return (
+    <div className="w-full">
+      <div
+        className="relative mx-auto w-full bg-gray-900 rounded-lg overflow-hidden border border-gray-700 flex flex-col"
+        style={{ aspectRatio: `${WORLD_WIDTH} / ${WORLD_HEIGHT * RACE_PLAYERS}`, minHeight: 480, maxHeight: '85vh' }}
+      >
+        {race.runners.map((runner, i) => (
+          <div key={i} className="relative flex-1 min-h-0 border-b border-gray-700 last:border-b-0">
+            <GameCanvas
+              getState={runnerGetters[i]}
+              collisionFlash={runner.status === 'over' && !reducedMotion}
+              partialReveal={partialReveal}
+              palette={palette}
+              reducedMotion={reducedMotion}
+            />
+            <div className="absolute top-2 left-2 bg-black bg-opacity-60 rounded px-3 py-1 text-sm flex items-center gap-3">
+              <span className={`font-bold ${RACER_COLORS[i]}`}>{racerNames[i]}</span>
+              <span className="text-gray-300">{t.common.score}: <span className="font-bold">{formatNumber(runner.score)}</span></span>
+              <span className="text-gray-300">
+                {t.common.pings}: <span className="font-bold">{mode === 'infinite' ? '∞' : formatNumber(runner.pingsRemaining)}</span>
+              </span>
+              <div className="w-12 h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-400 transition-all duration-100"
+                  style={{ width: `${getPingCooldownProgress(runner, 'ping') * 100}%` }}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {paused && running && (
+          <Overlay label={t.race.pausedLabel} className="bg-opacity-90 z-10">
+            <div className="m-auto text-center p-6">
+              <h2 className="text-3xl font-bold text-yellow-400 mb-6">{t.race.paused}</h2>
+              <div className="flex gap-4 justify-center">
+                <button
+                  onClick={() => setPaused(false)}
+                  className="bg-green-600 hover:bg-green-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                >
+                  <Play size={20} />
+                  {t.common.resume}
+                </button>
+                <button
+                  onClick={onExit}
+                  className="bg-gray-600 hover:bg-gray-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                >
+                  <Home size={20} />
+                  {t.common.menu}
+                </button>
+              </div>
+            </div>
+          </Overlay>
+        )}
+
+        {!running && (
+          <Overlay label={t.race.resultsLabel} className="bg-opacity-95 z-10">
+            <div className="m-auto text-center p-6 w-full max-w-lg">
+              <Trophy size={40} className="mx-auto text-yellow-400 mb-3" />
+              <h2 className={`text-3xl font-bold mb-6 ${race.winner === null ? 'text-gray-200' : RACER_COLORS[race.winner]}`}>
+                {race.winner === null ? t.race.draw : t.race.wins(racerNames[race.winner])}
+              </h2>
+              <div className="grid grid-cols-2 gap-4 mb-8">
+                {race.runners.map((runner, i) => (
+                  <div
+                    key={i}
+                    className={`bg-gray-800 rounded-lg p-4 text-left text-sm border ${race.winner === i ? 'border-yellow-400' : 'border-gray-700'}`}
+                  >
+                    <p className={`font-bold text-base mb-2 ${RACER_COLORS[i]}`}>{racerNames[i]}</p>
+                    <p className="text-gray-400">{t.common.score}: <span className="text-white font-semibold">{formatNumber(runner.score)}</span></p>
+                    <p className="text-gray-400">{t.breakdown.distance}: <span className="text-white">{formatNumber(Math.round(runner.stats.distance))}</span></p>
+                    <p className="text-gray-400">{t.breakdown.time}: <span className="text-white">{formatDuration(runner.stats.durationMs)}</span></p>
+                    <p className="text-gray-400">{t.breakdown.pingsUsed}: <span className="text-white">{formatNumber(getTotalPings(runner.stats))}</span></p>
+                    <p className="text-gray-400">{t.breakdown.nearMisses}: <span className="text-white">{formatNumber(runner.stats.nearMisses)}</span></p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-4 justify-center">
+                <button
+                  onClick={rematch}
+                  className="bg-orange-600 hover:bg-orange-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                >
+                  <RotateCcw size={20} />
+                  {t.race.rematch}
+                </button>
+                <button
+                  onClick={onExit}
+                  className="bg-gray-600 hover:bg-gray-700 px-6 py-3 rounded-lg font-semibold transition-colors flex items-center gap-2"
+                >
+                  <Home size={20} />
+                  {t.common.menu}
+                </button>
+              </div>
+            </div>
+          </Overlay>
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-center items-center gap-x-6 gap-y-2 mt-4 text-sm text-gray-400">
+        {racerNames.map((name, i) => (
+          <span key={name}><span className={RACER_COLORS[i]}>{name}</span>: {keyHints(i)} {t.race.orGamepad(i + 1)}</span>
+        ))}
+        {running && (
+          <button
+            onClick={() => setPaused(prev => !prev)}
+            className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-white"
+          >
+            <Pause size={16} />
+            {t.actions.pause}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
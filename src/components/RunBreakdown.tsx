@@ -0,0 +1,110 @@
+import { BarChart3 } from 'lucide-react';
+import { ECHO_KINDS } from '../game/echoes';
+import { formatDuration, getEchoEfficiency, getTotalPings } from '../game/stats';
+import type { RunRecord, RunStats } from '../game/stats';
+import { useI18n } from '../i18n';
+
+// Runs shown in the trend chart
+const TREND_RUNS = 20;
+
+interface LineChartProps {
+  values: number[];
+  color: string;
+  label: string;
+  format: (value: number) => string;
+}
+
+// Bare SVG line with its range, sized by its container
+function LineChart({ values, color, label, format }: LineChartProps) {
+  if (values.length < 2) return null;
+
+  const width = 240;
+  const height = 60;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const points = values
+    .map((value, index) => `${(index / (values.length - 1)) * width},${height - ((value - min) / range) * height}`)
+    .join(' ');
+
+  return (
+    <div className="text-left">
+      <div className="flex justify-between text-xs text-gray-400 mb-1">
+        <span>{label}</span>
+        <span>{format(min)} – {format(max)}</span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-12 bg-gray-900 rounded">
+        <polyline points={points} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+    </div>
+  );
+}
+
+interface RunBreakdownProps {
+  stats: RunStats;
+  // Earlier runs, oldest first, this one included
+  history: RunRecord[];
+}
+
+export function RunBreakdown({ stats, history }: RunBreakdownProps) {
+  const { t, formatNumber, formatDecimal, formatMultiplier } = useI18n();
+  const formatEfficiency = (value: number | null) => (value === null ? '–' : formatDecimal(value, 2));
+  const pings = getTotalPings(stats);
+  const efficiency = getEchoEfficiency(stats);
+  const recent = history.slice(-TREND_RUNS);
+  const recentEfficiencies = recent.map(run => getEchoEfficiency(run.stats)).filter((value): value is number => value !== null);
+  const averageEfficiency = recentEfficiencies.length > 0
+    ? recentEfficiencies.reduce((sum, value) => sum + value, 0) / recentEfficiencies.length
+    : null;
+  const passed = stats.obstaclesRevealed + stats.obstaclesUnseen;
+
+  const pingsByKind = ECHO_KINDS.map(kind => t.breakdown.pingsOfKind(formatNumber(stats.pingsUsed[kind]), t.echoes[kind]));
+
+  const rows: [string, string][] = [
+    [t.breakdown.distance, formatNumber(Math.round(stats.distance))],
+    [t.breakdown.time, formatDuration(stats.durationMs)],
+    [t.breakdown.pingsUsed, `${formatNumber(pings)}${pings > 0 ? ` (${pingsByKind.join(', ')})` : ''}`],
+    [t.breakdown.efficiency, t.breakdown.perPing(formatEfficiency(efficiency))],
+    [t.breakdown.passedSeen, t.breakdown.seenOf(formatNumber(stats.obstaclesRevealed), formatNumber(passed))],
+    [t.breakdown.passedUnseen, formatNumber(stats.obstaclesUnseen)],
+    [t.breakdown.nearMisses, formatNumber(stats.nearMisses)],
+    [t.breakdown.peakSpeed, formatMultiplier(stats.peakSpeed)],
+    [t.breakdown.causeOfDeath, stats.causeOfDeath ? t.obstacles[stats.causeOfDeath] : '–']
+  ];
+
+  return (
+    <div className="bg-gray-800 bg-opacity-80 rounded-lg p-4 my-4 w-full max-w-md mx-auto space-y-3">
+      <h3 className="font-semibold text-blue-300 flex items-center gap-2">
+        <BarChart3 size={18} />
+        {t.breakdown.title}
+      </h3>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-left">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-gray-400">{label}</dt>
+            <dd className="font-semibold tabular-nums">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <LineChart values={stats.speedSamples} color="#c084fc" label={t.breakdown.speedOverTime} format={formatMultiplier} />
+      {recentEfficiencies.length > 1 && (
+        <>
+          <LineChart
+            values={recentEfficiencies}
+            color="#60a5fa"
+            label={t.breakdown.efficiencyTrend(recentEfficiencies.length)}
+            format={formatEfficiency}
+          />
+          <p className="text-xs text-gray-400 text-left">
+            {t.breakdown.average(formatEfficiency(averageEfficiency))}
+            {efficiency !== null && averageEfficiency !== null && (
+              <span className={efficiency >= averageEfficiency ? 'text-green-400' : 'text-red-400'}>
+                {' '}• {t.breakdown.comparedWithAverage(efficiency >= averageEfficiency)}
+              </span>
+            )}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+interface ToggleSwitchProps {
+  checked: boolean;
+  // Spoken name of the setting, since the switch itself has no text
+  label: string;
+  onChange: (checked: boolean) => void;
+}
+
+export function ToggleSwitch({ checked, label, onChange }: ToggleSwitchProps) {
+  return (
+    <button
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      onClick={() => onChange(!checked)}
+      className={`w-12 h-6 rounded-full transition-colors shrink-0 ${checked ? 'bg-blue-600' : 'bg-gray-600'}`}
+    >
+      <div className={`w-5 h-5 bg-white rounded-full transition-transform ${checked ? 'translate-x-6' : 'translate-x-1'}`} />
+    </button>
+  );
+}
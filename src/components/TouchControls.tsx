@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { ChevronDown, ChevronUp, Volume2 } from 'lucide-react';
+import type { InputManager } from '../input/InputManager';
+import { useI18n } from '../i18n';
+
+interface TouchControlsProps {
+  controls: InputManager;
+}
+
+// Left strip steers: press above its middle to climb, below to dive, further
+// from the middle for more speed, and slide without lifting to adjust. Tapping
+// anywhere else pings, and the round buttons fire the other sonar abilities.
+export function TouchControls({ controls }: TouchControlsProps) {
+  const { t } = useI18n();
+  const pointerRef = useRef<number | null>(null);
+
+  useEffect(() => () => controls.setTouchMove(0), [controls]);
+
+  const steer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - (rect.top + rect.height / 2)) / (rect.height / 4);
+    controls.setTouchMove(offset);
+  };
+
+  const handleSteerStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointerRef.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    steer(e);
+  };
+
+  const handleSteerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointerRef.current === e.pointerId) {
+      steer(e);
+    }
+  };
+
+  const handleSteerEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointerRef.current === e.pointerId) {
+      pointerRef.current = null;
+      controls.setTouchMove(0);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 flex select-none touch-none">
+      <div
+        className="w-1/4 h-full flex flex-col justify-between items-center py-4 bg-white bg-opacity-5 text-gray-500"
+        onPointerDown={handleSteerStart}
+        onPointerMove={handleSteerMove}
+        onPointerUp={handleSteerEnd}
+        onPointerCancel={handleSteerEnd}
+      >
+        <ChevronUp size={32} />
+        <ChevronDown size={32} />
+      </div>
+      <div
+        className="flex-1 h-full flex items-end justify-end gap-3 p-4 text-gray-600"
+        onPointerDown={() => controls.trigger('ping')}
+      >
+        {(['cone', 'pulse'] as const).map(action => (
+          <button
+            key={action}
+            className="w-14 h-14 rounded-full bg-white bg-opacity-10 text-xs text-gray-300"
+            onPointerDown={e => {
+              e.stopPropagation();
+              controls.trigger(action);
+            }}
+          >
+            {t.echoes[action]}
+          </button>
+        ))}
+        <Volume2 size={28} />
+      </div>
+    </div>
+  );
+}
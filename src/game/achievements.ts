@@ -0,0 +1,138 @@
+// Long-term goals measured from each run's stats. An achievement either
+// looks for a single run good enough ('best') or adds up over every run
+// ('total'); either way it unlocks once its progress reaches the target.
+// Names and descriptions are in the message catalogs, keyed by id.
+
+import { getTotalPings } from './stats';
+import type { RunStats } from './stats';
+import type { Difficulty, GameMode } from './types';
+
+export type AchievementId =
+  | 'firstSteps'
+  | 'nightmareSurvivor'
+  | 'silentRunning'
+  | 'blindFaith'
+  | 'speedDemon'
+  | 'closeShave'
+  | 'marathon'
+  | 'finishLine';
+
+// What an achievement gets to look at, during or after a run
+export interface AchievementRun {
+  stats: RunStats;
+  mode: GameMode;
+  difficulty: Difficulty;
+  // A level's finish line was crossed
+  finished: boolean;
+}
+
+export interface Achievement {
+  id: AchievementId;
+  mode: 'best' | 'total';
+  target: number;
+  // This run's contribution towards the target
+  measure: (run: AchievementRun) => number;
+  // How the Achievements screen shows progress; plain counts when missing
+  unit?: 'seconds' | 'multiplier';
+}
+
+// Persisted per player
+export interface AchievementProgress {
+  // Best single run or running total, per achievement
+  progress: Partial<Record<AchievementId, number>>;
+  // ISO 8601 time of unlocking
+  unlocked: Partial<Record<AchievementId, string>>;
+}
+
+const seconds = (run: AchievementRun) => run.stats.durationMs / 1000;
+const isEndless = (run: AchievementRun) => run.mode !== 'levels';
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'firstSteps',
+    mode: 'best',
+    target: 30,
+    measure: run => (isEndless(run) ? seconds(run) : 0),
+    unit: 'seconds'
+  },
+  {
+    id: 'nightmareSurvivor',
+    mode: 'best',
+    target: 60,
+    measure: run => (isEndless(run) && run.difficulty === 'nightmare' ? seconds(run) : 0),
+    unit: 'seconds'
+  },
+  {
+    id: 'silentRunning',
+    mode: 'best',
+    target: 30,
+    measure: run => (run.mode === 'limited' && getTotalPings(run.stats) === 0 ? seconds(run) : 0),
+    unit: 'seconds'
+  },
+  {
+    id: 'blindFaith',
+    mode: 'total',
+    target: 50,
+    measure: run => run.stats.obstaclesUnseen
+  },
+  {
+    id: 'speedDemon',
+    mode: 'best',
+    target: 5,
+    measure: run => run.stats.peakSpeed,
+    unit: 'multiplier'
+  },
+  {
+    id: 'closeShave',
+    mode: 'best',
+    target: 10,
+    measure: run => run.stats.nearMisses
+  },
+  {
+    id: 'marathon',
+    mode: 'total',
+    target: 100000,
+    measure: run => run.stats.distance
+  },
+  {
+    id: 'finishLine',
+    mode: 'best',
+    target: 1,
+    measure: run => (run.finished ? 1 : 0)
+  }
+];
+
+export const NO_ACHIEVEMENT_PROGRESS: AchievementProgress = { progress: {}, unlocked: {} };
+
+// Progress including the run so far, not yet committed
+function progressWith(achievement: Achievement, saved: AchievementProgress, run: AchievementRun): number {
+  const previous = saved.progress[achievement.id] ?? 0;
+  const value = achievement.measure(run);
+  return achievement.mode === 'best' ? Math.max(previous, value) : previous + value;
+}
+
+// Achievements the run in progress has just earned
+export function findNewUnlocks(saved: AchievementProgress, run: AchievementRun): Achievement[] {
+  return ACHIEVEMENTS.filter(
+    achievement => !saved.unlocked[achievement.id] && progressWith(achievement, saved, run) >= achievement.target
+  );
+}
+
+// Marks achievements unlocked now, ahead of the run being committed
+export function unlockAchievements(saved: AchievementProgress, achievements: Achievement[]): AchievementProgress {
+  const unlocked = { ...saved.unlocked };
+  const now = new Date().toISOString();
+  for (const achievement of achievements) {
+    unlocked[achievement.id] ??= now;
+  }
+  return { ...saved, unlocked };
+}
+
+// Folds a finished run into the saved progress, unlocking anything it earned
+export function commitRun(saved: AchievementProgress, run: AchievementRun): AchievementProgress {
+  const progress = { ...saved.progress };
+  for (const achievement of ACHIEVEMENTS) {
+    progress[achievement.id] = progressWith(achievement, saved, run);
+  }
+  return unlockAchievements({ ...saved, progress }, findNewUnlocks(saved, run));
+}
@@ -0,0 +1,67 @@
+import type { DifficultyPreset, DifficultySettings } from './types';
+
+// Logical world size. All gameplay maths uses these units; the renderer
+// scales them to whatever the screen provides.
+export const WORLD_WIDTH = 800;
+export const WORLD_HEIGHT = 400;
+export const PLAYER_SIZE = 20;
+export const PLAYER_X = 100;
+export const OBSTACLE_WIDTH = 30;
+export const OBSTACLE_HEIGHT = 60;
+
+// The simulation always advances in fixed steps, whatever the display rate.
+export const FIXED_STEP_MS = 1000 / 60;
+
+// Per-frame rates (player speed, gameSpeed, echoSpeed, waveOpacityDecay) are
+// measured against a 60 Hz reference frame and scaled by elapsed time.
+export const REFERENCE_FRAME_MS = 1000 / 60;
+export const PLAYER_SPEED = 5;
+// Movement input is quantized to this many steps each way so replays record it compactly
+export const MOVE_LEVELS = 4;
+export const SPEED_RAMP_PER_FRAME = 0.001;
+export const SCORE_PER_SECOND = 60;
+// Limited mode gains one ping back this often
+export const PING_REFILL_MS = 800 * REFERENCE_FRAME_MS;
+
+export const DIFFICULTY_SETTINGS: Record<DifficultyPreset, DifficultySettings> = {
+  easy: {
+    echoCount: 8,
+    echoInterval: 800,
+    echoMaxRadius: 180,
+    echoSpeed: 2,
+    echoRevealDuration: 4000,
+    waveOpacityDecay: 0.015,
+    obstacleSpawnRate: 0.2,
+    gameSpeedMultiplier: 0.8
+  },
+  medium: {
+    echoCount: 5,
+    echoInterval: 1200,
+    echoMaxRadius: 140,
+    echoSpeed: 2.5,
+    echoRevealDuration: 3000,
+    waveOpacityDecay: 0.02,
+    obstacleSpawnRate: 0.3,
+    gameSpeedMultiplier: 1.0
+  },
+  hard: {
+    echoCount: 3,
+    echoInterval: 1800,
+    echoMaxRadius: 100,
+    echoSpeed: 3,
+    echoRevealDuration: 2000,
+    waveOpacityDecay: 0.025,
+    obstacleSpawnRate: 0.4,
+    gameSpeedMultiplier: 1.3
+  },
+  nightmare: {
+    echoCount: 2,
+    echoInterval: 2500,
+    echoMaxRadius: 80,
+    echoSpeed: 4,
+    echoRevealDuration: 1500,
+    waveOpacityDecay: 0.03,
+    obstacleSpawnRate: 0.5,
+    gameSpeedMultiplier: 1.6
+  }
+};
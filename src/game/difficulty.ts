@@ -0,0 +1,105 @@
+import { DIFFICULTY_SETTINGS } from './constants';
+import type { Difficulty, DifficultyPreset, DifficultySettings } from './types';
+
+export interface DifficultyRange {
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}
+
+// Allowed values for custom difficulties, wide enough to cover every preset
+export const DIFFICULTY_RANGES: Record<keyof DifficultySettings, DifficultyRange> = {
+  echoCount: { min: 1, max: 20, step: 1 },
+  echoInterval: { min: 200, max: 5000, step: 50, unit: 'ms' },
+  echoMaxRadius: { min: 40, max: 400, step: 5, unit: 'px' },
+  echoSpeed: { min: 0.5, max: 8, step: 0.1 },
+  echoRevealDuration: { min: 250, max: 8000, step: 50, unit: 'ms' },
+  waveOpacityDecay: { min: 0.005, max: 0.1, step: 0.001 },
+  obstacleSpawnRate: { min: 0.05, max: 1, step: 0.01 },
+  gameSpeedMultiplier: { min: 0.5, max: 3, step: 0.05, unit: 'x' }
+};
+
+// A problem with untrusted difficulty settings, rendered through the message catalog
+export type DifficultyError =
+  | { code: 'invalidJson' }
+  | { code: 'settingsNotObject' }
+  | { code: 'fieldNotNumber'; field: keyof DifficultySettings }
+  | { code: 'fieldOutOfRange'; field: keyof DifficultySettings; min: number; max: number };
+
+export const DIFFICULTY_FIELDS = Object.keys(DIFFICULTY_RANGES) as (keyof DifficultySettings)[];
+
+export const DIFFICULTY_PRESETS = Object.keys(DIFFICULTY_SETTINGS) as DifficultyPreset[];
+
+export interface CustomDifficultyPreset {
+  name: string;
+  settings: DifficultySettings;
+}
+
+export function isPresetDifficulty(difficulty: Difficulty): difficulty is DifficultyPreset {
+  return difficulty !== 'custom';
+}
+
+// Settings a run plays with. Custom runs without parameters fall back to medium.
+export function resolveDifficultySettings(difficulty: Difficulty, custom?: DifficultySettings): DifficultySettings {
+  if (isPresetDifficulty(difficulty)) return DIFFICULTY_SETTINGS[difficulty];
+  return custom ?? DIFFICULTY_SETTINGS.medium;
+}
+
+// Checks an untrusted value (e.g. imported JSON) field by field. Returns the
+// settings, or the problems found.
+export function validateDifficultySettings(
+  value: unknown
+): { settings: DifficultySettings; errors: [] } | { settings: null; errors: DifficultyError[] } {
+  if (typeof value !== 'object' || value === null) {
+    return { settings: null, errors: [{ code: 'settingsNotObject' }] };
+  }
+
+  const record = value as Record<string, unknown>;
+  const errors: DifficultyError[] = [];
+  const settings = {} as DifficultySettings;
+  for (const field of DIFFICULTY_FIELDS) {
+    const { min, max } = DIFFICULTY_RANGES[field];
+    const fieldValue = record[field];
+    if (typeof fieldValue !== 'number' || !Number.isFinite(fieldValue)) {
+      errors.push({ code: 'fieldNotNumber', field });
+    } else if (fieldValue < min || fieldValue > max) {
+      errors.push({ code: 'fieldOutOfRange', field, min, max });
+    } else {
+      settings[field] = field === 'echoCount' ? Math.round(fieldValue) : fieldValue;
+    }
+  }
+
+  return errors.length > 0 ? { settings: null, errors } : { settings, errors: [] };
+}
+
+export function exportCustomPreset(preset: CustomDifficultyPreset): string {
+  return JSON.stringify(preset);
+}
+
+// Accepts an exported preset, or a bare settings object, which gets fallbackName
+export function importCustomPreset(
+  json: string,
+  fallbackName: string
+): { preset: CustomDifficultyPreset } | { errors: DifficultyError[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { errors: [{ code: 'invalidJson' }] };
+  }
+
+  const record = (typeof parsed === 'object' && parsed !== null ? parsed : {}) as Record<string, unknown>;
+  const wrapped = 'settings' in record;
+  const result = validateDifficultySettings(wrapped ? record.settings : parsed);
+  if (!result.settings) {
+    return { errors: result.errors };
+  }
+
+  const name = wrapped && typeof record.name === 'string' && record.name.trim() ? record.name.trim() : fallbackName;
+  return { preset: { name, settings: result.settings } };
+}
+
+export function isSameDifficulty(a: DifficultySettings, b: DifficultySettings): boolean {
+  return DIFFICULTY_FIELDS.every(field => a[field] === b[field]);
+}
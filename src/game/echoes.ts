@@ -0,0 +1,120 @@
+import type { DifficultySettings, Echo, EchoKind, Face, Position, Rect } from './types';
+
+interface EchoType {
+  color: string;
+  // Relative to the difficulty's echo settings
+  radiusMultiplier: number;
+  speedMultiplier: number;
+  decayMultiplier: number;
+  cooldownMultiplier: number;
+  // Half the arc's angle in radians
+  spread: number;
+}
+
+export const ECHO_TYPES: Record<EchoKind, EchoType> = {
+  ping: {
+    color: '#60a5fa',
+    radiusMultiplier: 1,
+    speedMultiplier: 1,
+    decayMultiplier: 1,
+    cooldownMultiplier: 1,
+    spread: Math.PI
+  },
+  cone: {
+    color: '#34d399',
+    radiusMultiplier: 2,
+    speedMultiplier: 1.5,
+    decayMultiplier: 0.75,
+    cooldownMultiplier: 1,
+    spread: Math.PI / 6
+  },
+  pulse: {
+    color: '#c084fc',
+    radiusMultiplier: 3.5,
+    speedMultiplier: 0.6,
+    // Slow enough to live until it reaches its full range
+    decayMultiplier: 0.15,
+    cooldownMultiplier: 4,
+    spread: Math.PI
+  }
+};
+
+export const ECHO_KINDS: EchoKind[] = ['ping', 'cone', 'pulse'];
+
+export function getEchoCooldown(settings: DifficultySettings, kind: EchoKind): number {
+  return settings.echoInterval * ECHO_TYPES[kind].cooldownMultiplier;
+}
+
+// A new echo of the given kind leaving origin. radiusMultiplier stacks on top
+// of the kind's own, for power-ups.
+export function createEcho(
+  kind: EchoKind,
+  id: number,
+  origin: Position,
+  settings: DifficultySettings,
+  radiusMultiplier = 1
+): Echo {
+  const type = ECHO_TYPES[kind];
+  return {
+    id,
+    kind,
+    x: origin.x,
+    y: origin.y,
+    radius: 0,
+    maxRadius: settings.echoMaxRadius * type.radiusMultiplier * radiusMultiplier,
+    opacity: 1,
+    speed: settings.echoSpeed * type.speedMultiplier,
+    opacityDecay: settings.waveOpacityDecay * type.decayMultiplier,
+    direction: 0,
+    spread: type.spread,
+    hitObstacleIds: [],
+    hitPickupIds: []
+  };
+}
+
+export const ALL_FACES: Face[] = ['top', 'right', 'bottom', 'left'];
+
+// Whether a point (seen from the echo's origin, at least size px across)
+// falls inside the echo's arc. Full circles take everything.
+function withinArc(echo: Echo, x: number, y: number, size: number): boolean {
+  if (echo.spread >= Math.PI) return true;
+
+  const dx = x - echo.x;
+  const dy = y - echo.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance === 0) return true;
+  // Angle between the echo's heading and the point, folded into 0..PI
+  const offset = Math.abs(((Math.atan2(dy, dx) - echo.direction + 3 * Math.PI) % (2 * Math.PI)) - Math.PI);
+  // Things straddling the arc's edge still count
+  return offset <= echo.spread + Math.atan2(size / 2, distance);
+}
+
+// The faces of rect that look towards the echo's origin; all of them if the
+// echo started inside it
+function facesToward(echo: Echo, rect: Rect): Face[] {
+  const faces: Face[] = [];
+  if (echo.y <= rect.y) faces.push('top');
+  if (echo.x >= rect.x + rect.width) faces.push('right');
+  if (echo.y >= rect.y + rect.height) faces.push('bottom');
+  if (echo.x <= rect.x) faces.push('left');
+  return faces.length > 0 ? faces : ALL_FACES;
+}
+
+// Where the wavefront touches rect: the faces it hit, or null if it missed.
+// The ring swept outward from innerRadius to the echo's radius this step, so
+// rect is hit when part of it lies in that band (and inside the arc). A rect
+// entirely inside the ring has already been passed and is not hit again.
+export function wavefrontHit(echo: Echo, innerRadius: number, rect: Rect): Face[] | null {
+  const nearestX = Math.max(rect.x, Math.min(echo.x, rect.x + rect.width));
+  const nearestY = Math.max(rect.y, Math.min(echo.y, rect.y + rect.height));
+  if (Math.hypot(nearestX - echo.x, nearestY - echo.y) > echo.radius) return null;
+
+  const farthestX = Math.max(Math.abs(rect.x - echo.x), Math.abs(rect.x + rect.width - echo.x));
+  const farthestY = Math.max(Math.abs(rect.y - echo.y), Math.abs(rect.y + rect.height - echo.y));
+  if (Math.hypot(farthestX, farthestY) < innerRadius) return null;
+
+  const centerX = rect.x + rect.width / 2;
+  const centerY = rect.y + rect.height / 2;
+  if (!withinArc(echo, centerX, centerY, Math.max(rect.width, rect.height))) return null;
+  return facesToward(echo, rect);
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_SETTINGS, FIXED_STEP_MS, PING_REFILL_MS } from './constants';
+import { createGameState, NO_INPUT, step } from './engine';
+import type { GameInput, GameState } from './engine';
+import { getFinishDistance, getLevelProgress, getLevelSettings, LEVEL_VERSION } from './levels';
+import type { Level } from './levels';
+import type { Echo, Rect } from './types';
+
+const PING: GameInput = { move: 0, ping: 'ping' };
+// Long enough for anything these tests wait on
+const MAX_TICKS = 2000;
+
+function testLevel(overrides: Partial<Level> = {}): Level {
+  return {
+    version: LEVEL_VERSION,
+    id: 'test',
+    name: 'Test',
+    echoBudget: 5,
+    speedCurve: [{ distance: 0, speed: 2.5 }],
+    finishX: 5000,
+    obstacles: [],
+    ...overrides
+  };
+}
+
+const startLevel = (level: Level) => createGameState({ settings: getLevelSettings(level), mode: 'levels', seed: 1, level });
+
+// Steps with no input until done(state), or fails after MAX_TICKS
+function stepUntil(state: GameState, done: (state: GameState) => boolean): GameState {
+  for (let tick = 0; tick < MAX_TICKS; tick++) {
+    if (done(state)) return state;
+    state = step(state, NO_INPUT, FIXED_STEP_MS);
+  }
+  throw new Error('Condition never reached');
+}
+
+// Distance from the echo's origin to the nearest point of rect
+function distanceTo(echo: Echo, rect: Rect): number {
+  const x = Math.max(rect.x, Math.min(echo.x, rect.x + rect.width));
+  const y = Math.max(rect.y, Math.min(echo.y, rect.y + rect.height));
+  return Math.hypot(x - echo.x, y - echo.y);
+}
+
+describe('reveals', () => {
+  // A slow course with a block above the player's row, well within reach of
+  // a long-lived echo
+  const level = testLevel({
+    settings: { echoMaxRadius: 300, echoRevealDuration: 1000, waveOpacityDecay: 0.005 },
+    speedCurve: [{ distance: 0, speed: 0.5 }],
+    obstacles: [{ kind: 'block', x: 250, y: 100 }]
+  });
+
+  it('lights an obstacle on the step the wavefront reaches it', () => {
+    let state = step(startLevel(level), PING, FIXED_STEP_MS);
+    let echoHits = 0;
+    while (!state.obstacles[0].revealed) {
+      const before = state;
+      state = step(state, NO_INPUT, FIXED_STEP_MS);
+      echoHits += state.events.filter(event => event.type === 'echoHit').length;
+      expect(state.time).toBeLessThan(MAX_TICKS * FIXED_STEP_MS);
+      if (state.obstacles[0].revealed) {
+        expect(before.echoes[0].radius).toBeLessThan(distanceTo(before.echoes[0], before.obstacles[0]));
+      }
+    }
+
+    const [echo] = state.echoes;
+    const [obstacle] = state.obstacles;
+    expect(echo.radius).toBeGreaterThanOrEqual(distanceTo(echo, obstacle));
+    expect(obstacle.revealTimer).toBe(1000);
+    // Seen from below and to the left of it
+    expect(obstacle.revealedFaces).toEqual(['bottom', 'left']);
+    expect(echoHits).toBe(1);
+
+    // The same echo never returns twice
+    state = stepUntil(state, next => next.echoes.length === 0);
+    expect(state.events.filter(event => event.type === 'echoHit')).toHaveLength(0);
+  });
+
+  it('keeps an obstacle lit for the reveal duration once the wavefront has passed', () => {
+    let state = stepUntil(step(startLevel(level), PING, FIXED_STEP_MS), next => next.obstacles[0].revealed);
+    // Lit again every step while the ring is still sweeping over it
+    state = stepUntil(state, next => next.obstacles[0].revealTimer < 1000);
+
+    const timer = state.obstacles[0].revealTimer;
+    const ticksLeft = Math.ceil(timer / FIXED_STEP_MS);
+    for (let tick = 1; tick <= ticksLeft; tick++) {
+      state = step(state, NO_INPUT, FIXED_STEP_MS);
+      expect(state.obstacles[0].revealTimer).toBeCloseTo(Math.max(0, timer - tick * FIXED_STEP_MS));
+    }
+    // Dark again, though still known to have been seen
+    state = step(state, NO_INPUT, FIXED_STEP_MS);
+    expect(state.obstacles[0].revealTimer).toBe(0);
+    expect(state.obstacles[0].revealed).toBe(true);
+  });
+});
+
+describe('collisions', () => {
+  // A block straight ahead on the player's row
+  const level = testLevel({ obstacles: [{ kind: 'block', x: 300, y: 170 }] });
+
+  it('end the run and freeze the score', () => {
+    let before = startLevel(level);
+    let state = step(before, NO_INPUT, FIXED_STEP_MS);
+    while (state.status === 'running') {
+      before = state;
+      state = step(state, NO_INPUT, FIXED_STEP_MS);
+      expect(state.time).toBeLessThan(MAX_TICKS * FIXED_STEP_MS);
+    }
+
+    expect(state.status).toBe('over');
+    expect(state.events).toContainEqual(expect.objectContaining({ type: 'collision' }));
+    expect(state.score).toBe(before.score);
+    expect(step(state, PING, FIXED_STEP_MS)).toBe(state);
+  });
+
+  it('are absorbed by a shield, which breaks', () => {
+    const start = startLevel(level);
+    let state: GameState = { ...start, effects: { ...start.effects, shield: true } };
+    state = stepUntil(state, next => next.events.some(event => event.type === 'shieldBreak'));
+
+    expect(state.status).toBe('running');
+    expect(state.effects.shield).toBe(false);
+    expect(state.obstacles).toHaveLength(0);
+    expect(state.events.some(event => event.type === 'collision')).toBe(false);
+  });
+
+  it('ignore phantoms', () => {
+    const phantoms = testLevel({ obstacles: [{ kind: 'phantom', x: 300, y: 170 }] });
+    const state = stepUntil(startLevel(phantoms), next => next.obstacles.length === 0);
+    expect(state.status).toBe('running');
+  });
+});
+
+describe('ping refill', () => {
+  // Limited mode on an empty shared course, so nothing can end the run
+  const start = () =>
+    createGameState({ settings: DIFFICULTY_SETTINGS.medium, mode: 'limited', seed: 1, sharedCourse: true });
+
+  it('gives back one ping every PING_REFILL_MS', () => {
+    let state = step(start(), PING, FIXED_STEP_MS);
+    expect(state.pingsRemaining).toBe(DIFFICULTY_SETTINGS.medium.echoCount - 1);
+
+    state = stepUntil(state, next => next.time + FIXED_STEP_MS >= PING_REFILL_MS);
+    expect(state.pingsRemaining).toBe(DIFFICULTY_SETTINGS.medium.echoCount - 1);
+    state = step(state, NO_INPUT, FIXED_STEP_MS);
+    expect(state.pingsRemaining).toBe(DIFFICULTY_SETTINGS.medium.echoCount);
+  });
+
+  it('stops at the difficulty count but keeps extras', () => {
+    let state = stepUntil(start(), next => next.time >= 2 * PING_REFILL_MS);
+    expect(state.pingsRemaining).toBe(DIFFICULTY_SETTINGS.medium.echoCount);
+
+    state = stepUntil({ ...state, pingsRemaining: 7 }, next => next.time >= 3 * PING_REFILL_MS);
+    expect(state.pingsRemaining).toBe(7);
+  });
+});
+
+describe('levels', () => {
+  it('finish once the finish line reaches the player', () => {
+    const level = testLevel({ finishX: 300 });
+    let before = startLevel(level);
+    while (before.distance + 2.5 < getFinishDistance(level)) {
+      before = step(before, NO_INPUT, FIXED_STEP_MS);
+    }
+    expect(before.status).toBe('running');
+
+    const state = stepUntil(before, next => next.status !== 'running');
+    expect(state.status).toBe('finished');
+    expect(state.events).toContainEqual({ type: 'finish' });
+    expect(state.distance).toBeGreaterThanOrEqual(getFinishDistance(level));
+    expect(getLevelProgress(level, before.distance)).toBeLessThan(1);
+    expect(getLevelProgress(level, state.distance)).toBe(1);
+  });
+});
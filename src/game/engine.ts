@@ -0,0 +1,400 @@
+import {
+  WORLD_HEIGHT,
+  PING_REFILL_MS,
+  PLAYER_SIZE,
+  PLAYER_SPEED,
+  PLAYER_X,
+  REFERENCE_FRAME_MS,
+  SCORE_PER_SECOND,
+  SPEED_RAMP_PER_FRAME
+} from './constants';
+import { createEcho, getEchoCooldown, wavefrontHit } from './echoes';
+import { generateChunk, SPAWN_X } from './generator';
+import { createLevelObstacle, getFinishDistance, getLevelSpeed } from './levels';
+import type { Level } from './levels';
+import { isSolid, moveObstacle } from './obstacles';
+import {
+  applyPowerUp,
+  createPickup,
+  LINGERING_REVEAL_MULTIPLIER,
+  NO_EFFECTS,
+  PICKUP_CHANCE,
+  PICKUP_SIZE,
+  SLOW_TIME_SPEED_MULTIPLIER,
+  tickEffects,
+  WIDE_SONAR_RADIUS_MULTIPLIER
+} from './powerUps';
+import type { PowerUpEffects } from './powerUps';
+import { nextRandom } from './rng';
+import { createRunStats, updateRunStats } from './stats';
+import type { RunStats } from './stats';
+import type { DifficultySettings, Echo, EchoKind, GameMode, Obstacle, Pickup, Position, PowerUpKind, Rect } from './types';
+
+// Bump whenever a change to step or course generation plays the same inputs
+// out differently, so saved replays from before it are dropped rather than
+// desyncing
+export const SIMULATION_VERSION = 1;
+
+export interface GameConfig {
+  settings: DifficultySettings;
+  mode: GameMode;
+  seed: number;
+  // The course to play in 'levels' mode, instead of a generated one
+  level?: Level;
+  // Course position to start a level from, for playtesting part of it
+  startDistance?: number;
+  // The course is generated by a race and shared between its runners, so
+  // this state only scrolls what it's given and has no power-ups
+  sharedCourse?: boolean;
+}
+
+export interface GameInput {
+  // Vertical movement, -1 (full speed up) to 1 (full speed down)
+  move: number;
+  // Sonar ability fired this step, if any
+  ping: EchoKind | null;
+}
+
+export type GameEvent =
+  | { type: 'ping'; kind: EchoKind; x: number; y: number }
+  | { type: 'echoHit'; echo: Echo; obstacle: Obstacle }
+  | { type: 'pickupEchoHit'; echo: Echo; pickup: Pickup }
+  | { type: 'collision'; obstacle: Obstacle }
+  | { type: 'pickup'; kind: PowerUpKind }
+  // A shield took the hit instead of the player
+  | { type: 'shieldBreak'; obstacle: Obstacle }
+  | { type: 'finish' };
+
+export interface GameState {
+  config: GameConfig;
+  // 'finished' means a level's finish line was crossed
+  status: 'running' | 'over' | 'finished';
+  // Simulated milliseconds since the run started
+  time: number;
+  player: Position;
+  obstacles: Obstacle[];
+  // Power-ups waiting to be collected, in generated courses only
+  pickups: Pickup[];
+  effects: PowerUpEffects;
+  echoes: Echo[];
+  score: number;
+  gameSpeed: number;
+  // World px scrolled since the run started
+  distance: number;
+  // Where the next chunk of obstacles starts; scrolls with the course
+  spawnCursor: number;
+  // Index of the next level obstacle to place, in 'levels' mode
+  nextLevelObstacle: number;
+  pingsRemaining: number;
+  // Each sonar ability has its own cooldown
+  lastPingTimes: Record<EchoKind, number>;
+  nextPingRefill: number;
+  nextObstacleId: number;
+  nextPickupId: number;
+  nextEchoId: number;
+  rngState: number;
+  stats: RunStats;
+  // Everything that happened during the last step, for sound and UI
+  events: GameEvent[];
+}
+
+export const NO_INPUT: GameInput = { move: 0, ping: null };
+
+const READY_COOLDOWNS: Record<EchoKind, number> = { ping: -Infinity, cone: -Infinity, pulse: -Infinity };
+
+export function createGameState(config: GameConfig): GameState {
+  const gameSpeed = config.level ? getLevelSpeed(config.level, config.startDistance ?? 0) : 2 * config.settings.gameSpeedMultiplier;
+  return {
+    config,
+    status: 'running',
+    time: 0,
+    player: { x: PLAYER_X, y: WORLD_HEIGHT / 2 },
+    obstacles: [],
+    pickups: [],
+    effects: NO_EFFECTS,
+    echoes: [],
+    score: 0,
+    gameSpeed,
+    distance: config.startDistance ?? 0,
+    spawnCursor: SPAWN_X,
+    nextLevelObstacle: 0,
+    pingsRemaining: config.mode === 'infinite' ? Infinity : config.settings.echoCount,
+    lastPingTimes: READY_COOLDOWNS,
+    nextPingRefill: PING_REFILL_MS,
+    nextObstacleId: 0,
+    nextPickupId: 0,
+    nextEchoId: 0,
+    rngState: config.seed,
+    stats: createRunStats(gameSpeed),
+    events: []
+  };
+}
+
+// Every ability costs one ping
+export function canPing(state: GameState, kind: EchoKind): boolean {
+  const { mode, settings } = state.config;
+  const hasPings = mode === 'infinite' || state.pingsRemaining > 0;
+  return hasPings && state.time - state.lastPingTimes[kind] > getEchoCooldown(settings, kind);
+}
+
+export function getPingCooldownProgress(state: GameState, kind: EchoKind): number {
+  return Math.min((state.time - state.lastPingTimes[kind]) / getEchoCooldown(state.config.settings, kind), 1);
+}
+
+function movePlayer(player: Position, input: GameInput, frames: number): Position {
+  const move = Math.max(-1, Math.min(1, input.move));
+  const y = Math.max(0, Math.min(WORLD_HEIGHT - PLAYER_SIZE, player.y + move * PLAYER_SPEED * frames));
+  return y === player.y ? player : { ...player, y };
+}
+
+const pickupBounds = (pickup: Pickup): Rect => ({ ...pickup, width: PICKUP_SIZE, height: PICKUP_SIZE });
+
+function overlapsPlayer(player: Position, bounds: Rect): boolean {
+  return (
+    player.x + PLAYER_SIZE > bounds.x &&
+    player.x < bounds.x + bounds.width &&
+    player.y + PLAYER_SIZE > bounds.y &&
+    player.y < bounds.y + bounds.height
+  );
+}
+
+// Advances the simulation by dtMs. The previous state is never mutated, and
+// everything happens in a fixed order so the reveal and collision passes
+// always see this tick's positions. The game loop always passes
+// FIXED_STEP_MS so runs are identical on every display.
+export function step(state: GameState, input: GameInput, dtMs: number): GameState {
+  if (state.status !== 'running') return state;
+
+  const { settings, mode, level, sharedCourse } = state.config;
+  const events: GameEvent[] = [];
+  const time = state.time + dtMs;
+  const frames = dtMs / REFERENCE_FRAME_MS;
+  let { pingsRemaining, lastPingTimes, nextPingRefill, nextObstacleId, nextPickupId, nextEchoId, rngState } = state;
+  let effects = tickEffects(state.effects, dtMs);
+  const random = () => {
+    const [value, next] = nextRandom(rngState);
+    rngState = next;
+    return value;
+  };
+
+  // 1. Movement
+  const player = movePlayer(state.player, input, frames);
+
+  // 2. Ping
+  let echoes = state.echoes;
+  if (input.ping && canPing({ ...state, time }, input.ping)) {
+    const radiusMultiplier = effects.timers.wideSonar > 0 ? WIDE_SONAR_RADIUS_MULTIPLIER : 1;
+    const origin = { x: player.x + PLAYER_SIZE / 2, y: player.y + PLAYER_SIZE / 2 };
+    echoes = [...echoes, createEcho(input.ping, nextEchoId++, origin, settings, radiusMultiplier)];
+    if (mode !== 'infinite') {
+      pingsRemaining -= 1;
+    }
+    lastPingTimes = { ...lastPingTimes, [input.ping]: time };
+    events.push({ type: 'ping', kind: input.ping, x: origin.x, y: origin.y });
+  }
+
+  // 3. Obstacles scroll, fade and spawn. Slow time runs the whole course on
+  // a slower clock (scrolling, moving obstacles and the speed ramp alike)
+  // while the player keeps full speed, so anything passable stays passable.
+  const worldDtMs = dtMs * (effects.timers.slowTime > 0 ? SLOW_TIME_SPEED_MULTIPLIER : 1);
+  const worldFrames = worldDtMs / REFERENCE_FRAME_MS;
+  const scroll = state.gameSpeed * worldFrames;
+  const speedRamp = SPEED_RAMP_PER_FRAME * settings.gameSpeedMultiplier;
+  const distance = state.distance + scroll;
+  const gameSpeed = level ? getLevelSpeed(level, distance) : state.gameSpeed + speedRamp * worldFrames;
+  let obstacles = state.obstacles
+    .map(obstacle => ({
+      ...moveObstacle(obstacle, worldDtMs),
+      x: obstacle.x - scroll,
+      revealTimer: Math.max(0, obstacle.revealTimer - dtMs)
+    }))
+    .filter(obstacle => obstacle.x > -obstacle.width);
+  let pickups = state.pickups
+    .map(pickup => ({ ...pickup, x: pickup.x - scroll, revealTimer: Math.max(0, pickup.revealTimer - dtMs) }))
+    .filter(pickup => pickup.x > -PICKUP_SIZE);
+
+  let spawnCursor = state.spawnCursor - scroll;
+  let nextLevelObstacle = state.nextLevelObstacle;
+  if (level) {
+    // Levels place their obstacles as they come within reach of the right
+    // edge. Starting part way places everything before that point at once,
+    // except what already reaches back to the player's column: behind them
+    // it's of no use, and alongside them it would hit on the first step.
+    while (nextLevelObstacle < level.obstacles.length && level.obstacles[nextLevelObstacle].x - distance <= SPAWN_X) {
+      const placement = level.obstacles[nextLevelObstacle++];
+      if (placement.x - distance < PLAYER_X + PLAYER_SIZE) continue;
+      obstacles.push(createLevelObstacle(placement, nextObstacleId++, distance));
+    }
+  } else if (!sharedCourse && spawnCursor <= SPAWN_X) {
+    const chunk = generateChunk({
+      obstacles,
+      playerYs: [player.y],
+      gameSpeed,
+      speedRamp,
+      density: settings.obstacleSpawnRate,
+      distance,
+      nextObstacleId,
+      x: SPAWN_X
+    }, random);
+    obstacles.push(...chunk.obstacles);
+    nextObstacleId += chunk.obstacles.length;
+    spawnCursor = chunk.nextX;
+
+    // Power-ups sit in the gap the chunk leaves behind it
+    if (chunk.obstacles.length > 0 && random() < PICKUP_CHANCE) {
+      const chunkEnd = Math.max(...chunk.obstacles.map(obstacle => obstacle.x + obstacle.width));
+      const pickup = createPickup(nextPickupId, (chunkEnd + chunk.nextX - PICKUP_SIZE) / 2, obstacles, random);
+      if (pickup) {
+        pickups.push(pickup);
+        nextPickupId++;
+      }
+    }
+  }
+
+  // 4. Echoes grow and fade
+  const innerRadii = new Map(echoes.map(echo => [echo.id, echo.radius]));
+  echoes = echoes
+    .map(echo => ({
+      ...echo,
+      radius: Math.min(echo.radius + echo.speed * frames, echo.maxRadius),
+      opacity: Math.max(0, echo.opacity - echo.opacityDecay * frames)
+    }))
+    .filter(echo => echo.opacity > 0);
+
+  // 5. Reveal whatever the wavefronts swept over this step. Faces add up
+  // while an obstacle stays lit and start over once it has gone dark.
+  const revealDuration = settings.echoRevealDuration * (effects.timers.lingeringReveal > 0 ? LINGERING_REVEAL_MULTIPLIER : 1);
+  const waveHit = (echo: Echo, rect: Rect) => wavefrontHit(echo, innerRadii.get(echo.id) ?? 0, rect);
+  obstacles = obstacles.map(obstacle => {
+    let revealed = obstacle;
+    for (const echo of echoes) {
+      const faces = waveHit(echo, obstacle);
+      if (!faces) continue;
+
+      const lit = revealed.revealed && revealed.revealTimer > 0;
+      const revealedFaces = lit ? [...new Set([...revealed.revealedFaces, ...faces])] : faces;
+      revealed = { ...revealed, revealed: true, revealTimer: revealDuration, revealedFaces };
+      if (!echo.hitObstacleIds.includes(obstacle.id)) {
+        echo.hitObstacleIds = [...echo.hitObstacleIds, obstacle.id];
+        events.push({ type: 'echoHit', echo, obstacle: revealed });
+      }
+    }
+    return revealed;
+  });
+
+  pickups = pickups.map(pickup => {
+    let revealed = pickup;
+    for (const echo of echoes) {
+      if (!waveHit(echo, pickupBounds(pickup))) continue;
+
+      revealed = { ...pickup, revealed: true, revealTimer: revealDuration };
+      if (!echo.hitPickupIds.includes(pickup.id)) {
+        echo.hitPickupIds = [...echo.hitPickupIds, pickup.id];
+        events.push({ type: 'pickupEchoHit', echo, pickup: revealed });
+      }
+    }
+    return revealed;
+  });
+
+  // 6. Pickups are collected by touch, seen or not
+  pickups = pickups.filter(pickup => {
+    if (!overlapsPlayer(player, pickupBounds(pickup))) return true;
+
+    if (pickup.kind === 'extraPing') {
+      // Infinite mode has pings to spare, so it skips the cooldowns instead
+      if (mode === 'infinite') lastPingTimes = READY_COOLDOWNS;
+      else pingsRemaining += 1;
+    } else {
+      effects = applyPowerUp(effects, pickup.kind);
+    }
+    events.push({ type: 'pickup', kind: pickup.kind });
+    return false;
+  });
+
+  // 7. Collision; phantoms are only there to waste attention. A shield
+  // absorbs everything hit in the step it breaks.
+  let hit = obstacles.find(obstacle => isSolid(obstacle) && overlapsPlayer(player, obstacle));
+  if (hit && effects.shield) {
+    events.push({ type: 'shieldBreak', obstacle: hit });
+    obstacles = obstacles.filter(obstacle => !isSolid(obstacle) || !overlapsPlayer(player, obstacle));
+    effects = { ...effects, shield: false };
+    hit = undefined;
+  }
+  if (hit) {
+    events.push({ type: 'collision', obstacle: hit });
+  }
+
+  // A level ends once its finish line reaches the player
+  const finished = !hit && !!level && distance >= getFinishDistance(level);
+  if (finished) {
+    events.push({ type: 'finish' });
+  }
+
+  // 8. Scoring, stats, ping refill and difficulty ramp
+  const score = Math.floor((time / 1000) * SCORE_PER_SECOND);
+  const stats = updateRunStats(state.stats, { time, distance, scroll, gameSpeed, player, obstacles, events });
+  if (time >= nextPingRefill) {
+    // Refills stop at the difficulty's count but leave picked up extras alone
+    if (mode === 'limited' && pingsRemaining < settings.echoCount) {
+      pingsRemaining += 1;
+    }
+    nextPingRefill += PING_REFILL_MS;
+  }
+
+  return {
+    ...state,
+    status: hit ? 'over' : finished ? 'finished' : 'running',
+    time,
+    player,
+    obstacles,
+    pickups,
+    effects,
+    echoes,
+    score: hit ? state.score : score,
+    gameSpeed,
+    distance,
+    spawnCursor,
+    nextLevelObstacle,
+    pingsRemaining,
+    lastPingTimes,
+    nextPingRefill,
+    nextObstacleId,
+    nextPickupId,
+    nextEchoId,
+    rngState,
+    stats,
+    events
+  };
+}
+
+const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
+
+// Blends two consecutive simulation states for drawing between fixed steps.
+// Only positions are blended; everything else comes from the newer state.
+export function interpolateState(previous: GameState, current: GameState, alpha: number): GameState {
+  if (alpha >= 1 || previous === current) return current;
+
+  const previousObstacles = new Map(previous.obstacles.map(obstacle => [obstacle.id, obstacle]));
+  const previousPickups = new Map(previous.pickups.map(pickup => [pickup.id, pickup]));
+  const previousEchoes = new Map(previous.echoes.map(echo => [echo.id, echo]));
+
+  return {
+    ...current,
+    player: { ...current.player, y: lerp(previous.player.y, current.player.y, alpha) },
+    distance: lerp(previous.distance, current.distance, alpha),
+    obstacles: current.obstacles.map(obstacle => {
+      const before = previousObstacles.get(obstacle.id);
+      return before
+        ? { ...obstacle, x: lerp(before.x, obstacle.x, alpha), y: lerp(before.y, obstacle.y, alpha) }
+        : obstacle;
+    }),
+    pickups: current.pickups.map(pickup => {
+      const before = previousPickups.get(pickup.id);
+      return before ? { ...pickup, x: lerp(before.x, pickup.x, alpha) } : pickup;
+    }),
+    echoes: current.echoes.map(echo => {
+      const before = previousEchoes.get(echo.id);
+      return before ? { ...echo, radius: lerp(before.radius, echo.radius, alpha) } : echo;
+    })
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { PLAYER_SIZE, PLAYER_SPEED, PLAYER_X, REFERENCE_FRAME_MS, WORLD_HEIGHT } from './constants';
+import { generateChunk, hasPassablePath, SPAWN_X } from './generator';
+import { createBlock, createPillar, createWall, isSolid, obstacleYAfter, WALL_GAP_HEIGHT } from './obstacles';
+import { nextRandom } from './rng';
+import type { Obstacle } from './types';
+
+const SPEED = 3;
+const RAMP = 0.001;
+const MAX_Y = WORLD_HEIGHT - PLAYER_SIZE;
+
+// Independent of hasPassablePath: plays the course out frame by frame the way
+// step does (move, scroll, collide), at whole-pixel heights with no safety
+// margin, and reports whether any height survives to the end
+function canSurvive(obstacles: Obstacle[], playerY: number, gameSpeed: number, speedRamp: number): boolean {
+  const solid = obstacles.filter(isSolid);
+  let reachable = new Uint8Array(MAX_Y + 1);
+  reachable[Math.round(playerY)] = 1;
+  let scrolled = 0;
+  let speed = gameSpeed;
+  let elapsedMs = 0;
+
+  while (solid.some(obstacle => obstacle.x - scrolled + obstacle.width > PLAYER_X)) {
+    const moved = new Uint8Array(MAX_Y + 1);
+    reachable.forEach((value, y) => {
+      if (!value) return;
+      for (let to = Math.max(0, y - PLAYER_SPEED); to <= Math.min(MAX_Y, y + PLAYER_SPEED); to++) moved[to] = 1;
+    });
+    scrolled += speed;
+    elapsedMs += REFERENCE_FRAME_MS;
+    speed += speedRamp;
+
+    for (const obstacle of solid) {
+      const x = obstacle.x - scrolled;
+      if (PLAYER_X + PLAYER_SIZE <= x || PLAYER_X >= x + obstacle.width) continue;
+      const top = obstacleYAfter(obstacle, elapsedMs);
+      moved.forEach((_, y) => {
+        if (y + PLAYER_SIZE > top && y < top + obstacle.height) moved[y] = 0;
+      });
+    }
+    if (!moved.includes(1)) return false;
+    reachable = moved;
+  }
+  return true;
+}
+
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    const [value, next] = nextRandom(state);
+    state = next;
+    return value;
+  };
+}
+
+describe('hasPassablePath', () => {
+  const middle = (WORLD_HEIGHT - PLAYER_SIZE) / 2;
+
+  it('passes an empty course and a wall with a gap in reach', () => {
+    expect(hasPassablePath([], middle, SPEED, RAMP)).toBe(true);
+    expect(hasPassablePath(createWall(0, 600, middle - 20), middle, SPEED, RAMP)).toBe(true);
+  });
+
+  it('fails a solid column from floor to ceiling', () => {
+    expect(hasPassablePath([createPillar(0, 400, WORLD_HEIGHT, true)], middle, SPEED, RAMP)).toBe(false);
+  });
+
+  it('ignores phantoms', () => {
+    const phantoms = [0, 60, 120, 180, 240, 300, 360].map((y, id) => createBlock(id, 400, y, true));
+    expect(hasPassablePath(phantoms, middle, SPEED, RAMP)).toBe(true);
+  });
+
+  it('fails a gap the player cannot reach in time', () => {
+    // Gap at the very top, player at the very bottom
+    const near = createWall(0, PLAYER_X + 60, 0);
+    const far = createWall(0, SPAWN_X, 0);
+    expect(hasPassablePath(near, MAX_Y, SPEED, RAMP)).toBe(false);
+    expect(hasPassablePath(far, MAX_Y, SPEED, RAMP)).toBe(true);
+  });
+
+  it('fails consecutive gaps too far apart to weave between', () => {
+    const blocked = [createWall(0, 500, 0), createWall(2, 560, WORLD_HEIGHT - WALL_GAP_HEIGHT)].flat();
+    expect(canSurvive(blocked, middle, SPEED, RAMP)).toBe(false);
+    expect(hasPassablePath(blocked, middle, SPEED, RAMP)).toBe(false);
+  });
+});
+
+describe('generateChunk', () => {
+  it('never builds a course the player cannot get through', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const random = seededRandom(seed);
+      const playerY = random() * MAX_Y;
+      let obstacles: Obstacle[] = [];
+      let x = SPAWN_X;
+      // Deep enough into the course for the hardest chunks to appear
+      const distance = 20000 + seed * 500;
+      while (x < SPAWN_X + 1500) {
+        const chunk = generateChunk(
+          { obstacles, playerYs: [playerY], gameSpeed: SPEED, speedRamp: RAMP, density: 0.5, distance, nextObstacleId: obstacles.length, x },
+          random
+        );
+        obstacles = [...obstacles, ...chunk.obstacles];
+        x = chunk.nextX;
+      }
+
+      expect(obstacles.length).toBeGreaterThan(0);
+      expect(canSurvive(obstacles, playerY, SPEED, RAMP), `seed ${seed}`).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,272 @@
+// Builds the course out of authored chunks: small obstacle patterns that are
+// placed as a unit, mirrored and jittered so they don't repeat exactly. Every
+// chunk is checked against what's already on screen before it's accepted, so
+// the player always has at least one way through.
+
+import {
+  OBSTACLE_HEIGHT,
+  OBSTACLE_WIDTH,
+  PLAYER_SIZE,
+  PLAYER_SPEED,
+  PLAYER_X,
+  REFERENCE_FRAME_MS,
+  WORLD_HEIGHT,
+  WORLD_WIDTH
+} from './constants';
+import {
+  createBlock,
+  createMovingBlock,
+  createPillar,
+  createWall,
+  isSolid,
+  MOVING_MAX_AMPLITUDE,
+  MOVING_MAX_PERIOD_MS,
+  MOVING_MIN_AMPLITUDE,
+  MOVING_MIN_PERIOD_MS,
+  obstacleYAfter,
+  WALL_GAP_HEIGHT
+} from './obstacles';
+import type { Obstacle } from './types';
+
+// Vertical positions are fractions (0 top, 1 bottom) of the room the piece
+// has to move in; left out, they're picked at random
+type ChunkPiece =
+  | { kind: 'block' | 'phantom'; dx: number; y?: number }
+  | { kind: 'moving'; dx: number; y?: number; phase?: number }
+  | { kind: 'pillar'; dx: number; height: number; ceiling?: boolean }
+  | { kind: 'wall'; dx: number; gap?: number; phantomGap?: boolean };
+
+interface Chunk {
+  name: string;
+  // Intensity (see getIntensity) from which the chunk can appear
+  minIntensity: number;
+  pieces: ChunkPiece[];
+}
+
+const CHUNKS: Chunk[] = [
+  { name: 'single', minIntensity: 0, pieces: [{ kind: 'block', dx: 0 }] },
+  { name: 'split', minIntensity: 0.1, pieces: [{ kind: 'block', dx: 0, y: 0.1 }, { kind: 'block', dx: 0, y: 0.9 }] },
+  { name: 'pillar', minIntensity: 0.15, pieces: [{ kind: 'pillar', dx: 0, height: 200 }] },
+  {
+    name: 'stairs',
+    minIntensity: 0.2,
+    pieces: [{ kind: 'block', dx: 0, y: 0.2 }, { kind: 'block', dx: 100, y: 0.5 }, { kind: 'block', dx: 200, y: 0.8 }]
+  },
+  { name: 'mover', minIntensity: 0.25, pieces: [{ kind: 'moving', dx: 0 }] },
+  {
+    name: 'decoy',
+    minIntensity: 0.3,
+    pieces: [{ kind: 'phantom', dx: 0, y: 0.5 }, { kind: 'block', dx: 60, y: 0.15 }, { kind: 'block', dx: 60, y: 0.85 }]
+  },
+  {
+    name: 'gate',
+    minIntensity: 0.35,
+    pieces: [{ kind: 'pillar', dx: 0, height: 150, ceiling: true }, { kind: 'pillar', dx: 0, height: 150, ceiling: false }]
+  },
+  { name: 'wall', minIntensity: 0.4, pieces: [{ kind: 'wall', dx: 0 }] },
+  {
+    name: 'slalom',
+    minIntensity: 0.45,
+    pieces: [{ kind: 'pillar', dx: 0, height: 220, ceiling: false }, { kind: 'pillar', dx: 220, height: 220, ceiling: true }]
+  },
+  {
+    name: 'twin movers',
+    minIntensity: 0.5,
+    pieces: [{ kind: 'moving', dx: 0, y: 0.3, phase: 0 }, { kind: 'moving', dx: 140, y: 0.7, phase: Math.PI }]
+  },
+  {
+    name: 'guarded wall',
+    minIntensity: 0.6,
+    pieces: [{ kind: 'block', dx: 0 }, { kind: 'wall', dx: 180 }]
+  },
+  { name: 'false gap', minIntensity: 0.7, pieces: [{ kind: 'wall', dx: 0, phantomGap: true }] },
+  {
+    name: 'gauntlet',
+    minIntensity: 0.8,
+    pieces: [
+      { kind: 'block', dx: 0, y: 0.05 },
+      { kind: 'block', dx: 0, y: 0.95 },
+      { kind: 'block', dx: 120, y: 0.5 },
+      { kind: 'block', dx: 240, y: 0.15 },
+      { kind: 'block', dx: 240, y: 0.85 }
+    ]
+  },
+  {
+    name: 'crusher',
+    minIntensity: 0.85,
+    pieces: [
+      { kind: 'pillar', dx: 0, height: 120, ceiling: true },
+      { kind: 'pillar', dx: 0, height: 120, ceiling: false },
+      { kind: 'moving', dx: 120, y: 0.5 }
+    ]
+  }
+];
+
+export const SPAWN_X = WORLD_WIDTH + 50;
+// Authored positions are nudged by up to this fraction either way
+const JITTER = 0.08;
+// Distance over which intensity climbs from the difficulty's density to 1
+const FULL_INTENSITY_DISTANCE = 30000;
+// Space after a chunk, from calm to full intensity
+const MAX_SPACING = 320;
+const MIN_SPACING = 60;
+// How far to wait before trying again when no chunk fits
+const RETRY_SPACING = 40;
+const MAX_ATTEMPTS = 4;
+
+// Height of the bands the passability check tracks: one frame of movement
+const CELL = PLAYER_SPEED;
+// Extra clearance demanded around every obstacle
+const SAFETY_MARGIN = 2;
+
+export interface GeneratorContext {
+  // Current obstacles, already scrolled for this step
+  obstacles: Obstacle[];
+  // Where each runner is; the chunk has to be passable from every one of them
+  playerYs: number[];
+  // Speed the course scrolls at next step
+  gameSpeed: number;
+  // gameSpeed gained per reference frame
+  speedRamp: number;
+  // DifficultySettings.obstacleSpawnRate
+  density: number;
+  distance: number;
+  nextObstacleId: number;
+  // Where the chunk's first piece goes
+  x: number;
+}
+
+export interface GeneratedChunk {
+  obstacles: Obstacle[];
+  // Where the next chunk may start
+  nextX: number;
+}
+
+// 0 to 1: how busy the course is. Starts at the difficulty's density and
+// climbs with distance travelled.
+export function getIntensity(density: number, distance: number): number {
+  return Math.min(1, density + ((1 - density) * distance) / FULL_INTENSITY_DISTANCE);
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const between = (min: number, max: number, random: () => number) => min + random() * (max - min);
+
+function buildChunk(chunk: Chunk, x: number, firstId: number, random: () => number): Obstacle[] {
+  const mirrored = random() < 0.5;
+  const place = (fraction: number | undefined) => {
+    const value = fraction === undefined ? random() : clamp01(fraction + (random() * 2 - 1) * JITTER);
+    return mirrored ? 1 - value : value;
+  };
+
+  const obstacles: Obstacle[] = [];
+  let id = firstId;
+  for (const piece of chunk.pieces) {
+    const pieceX = x + piece.dx;
+    switch (piece.kind) {
+      case 'block':
+      case 'phantom':
+        obstacles.push(createBlock(id++, pieceX, place(piece.y) * (WORLD_HEIGHT - OBSTACLE_HEIGHT), piece.kind === 'phantom'));
+        break;
+      case 'moving': {
+        const amplitude = between(MOVING_MIN_AMPLITUDE, MOVING_MAX_AMPLITUDE, random);
+        const range = WORLD_HEIGHT - OBSTACLE_HEIGHT - 2 * amplitude;
+        const phase = piece.phase === undefined ? random() * Math.PI * 2 : piece.phase;
+        obstacles.push(createMovingBlock(id++, pieceX, {
+          baseY: amplitude + place(piece.y) * range,
+          amplitude,
+          periodMs: between(MOVING_MIN_PERIOD_MS, MOVING_MAX_PERIOD_MS, random),
+          phase: mirrored ? phase + Math.PI : phase
+        }));
+        break;
+      }
+      case 'pillar': {
+        const ceiling = piece.ceiling === undefined ? random() < 0.5 : piece.ceiling;
+        obstacles.push(createPillar(id++, pieceX, piece.height, mirrored ? !ceiling : ceiling));
+        break;
+      }
+      case 'wall': {
+        const gapY = place(piece.gap) * (WORLD_HEIGHT - WALL_GAP_HEIGHT);
+        obstacles.push(...createWall(id, pieceX, gapY));
+        id += 2;
+        if (piece.phantomGap) {
+          obstacles.push(createBlock(id++, pieceX, gapY + (WALL_GAP_HEIGHT - OBSTACLE_HEIGHT) / 2, true));
+        }
+        break;
+      }
+    }
+  }
+  return obstacles;
+}
+
+// Whether some sequence of moves gets the player from playerY past every
+// solid obstacle. Replays the coming frames the way step does (move, scroll,
+// collide) with gameSpeed ramping up, tracking every height the player could
+// be at. Heights are kept in bands one frame of movement tall, so a move is
+// always exactly one band.
+export function hasPassablePath(
+  obstacles: Obstacle[],
+  playerY: number,
+  gameSpeed: number,
+  speedRamp: number
+): boolean {
+  const solid = obstacles.filter(isSolid);
+  const cellCount = Math.floor((WORLD_HEIGHT - PLAYER_SIZE) / CELL) + 1;
+
+  // Anything within one move of where the player is now
+  let reachable = new Uint8Array(cellCount).map((_, i) => (Math.abs(i * CELL - playerY) <= PLAYER_SPEED ? 1 : 0));
+  let scrolled = 0;
+  let speed = gameSpeed;
+  let elapsedMs = 0;
+
+  while (solid.some(obstacle => obstacle.x - scrolled + obstacle.width > PLAYER_X - SAFETY_MARGIN)) {
+    scrolled += speed;
+    elapsedMs += REFERENCE_FRAME_MS;
+    speed += speedRamp;
+
+    for (const obstacle of solid) {
+      const x = obstacle.x - scrolled;
+      if (x >= PLAYER_X + PLAYER_SIZE + SAFETY_MARGIN || x + obstacle.width <= PLAYER_X - SAFETY_MARGIN) continue;
+
+      const y = obstacleYAfter(obstacle, elapsedMs);
+      const top = y - PLAYER_SIZE - SAFETY_MARGIN;
+      const bottom = y + obstacle.height + SAFETY_MARGIN;
+      for (let i = Math.max(0, Math.floor(top / CELL)); i < cellCount && i * CELL < bottom; i++) {
+        if (i * CELL > top) reachable[i] = 0;
+      }
+    }
+    if (!reachable.includes(1)) return false;
+
+    // Next frame's move
+    reachable = reachable.map((value, i) => value | (reachable[i - 1] ?? 0) | (reachable[i + 1] ?? 0));
+  }
+  return true;
+}
+
+function pickChunk(eligible: Chunk[], random: () => number): Chunk {
+  // Harder chunks are favoured once unlocked, so the mix keeps shifting
+  const weight = (chunk: Chunk) => 1 + 2 * chunk.minIntensity;
+  let roll = random() * eligible.reduce((sum, chunk) => sum + weight(chunk), 0);
+  for (const chunk of eligible) {
+    roll -= weight(chunk);
+    if (roll < 0) return chunk;
+  }
+  return eligible[eligible.length - 1];
+}
+
+// Picks a chunk that fits, or leaves a short empty stretch if none does.
+export function generateChunk(context: GeneratorContext, random: () => number): GeneratedChunk {
+  const intensity = getIntensity(context.density, context.distance);
+  const eligible = CHUNKS.filter(chunk => chunk.minIntensity <= intensity);
+  const spacing = MAX_SPACING + (MIN_SPACING - MAX_SPACING) * intensity;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const chunk = pickChunk(eligible, random);
+    const built = buildChunk(chunk, context.x, context.nextObstacleId, random);
+    const course = [...context.obstacles, ...built];
+    if (context.playerYs.every(playerY => hasPassablePath(course, playerY, context.gameSpeed, context.speedRamp))) {
+      const length = Math.max(...chunk.pieces.map(piece => piece.dx)) + OBSTACLE_WIDTH;
+      return { obstacles: built, nextX: context.x + length + spacing };
+    }
+  }
+  return { obstacles: [], nextX: context.x + RETRY_SPACING };
+}
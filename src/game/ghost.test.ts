@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { PLAYER_SIZE, WORLD_HEIGHT } from './constants';
+import { decodeGhost, encodeGhost, getGhostY, GHOST_SAMPLE_MS } from './ghost';
+
+describe('ghosts', () => {
+  it('round-trip a path to the nearest pixel', () => {
+    const ys = [190, 190.4, 12.6, 0, WORLD_HEIGHT - PLAYER_SIZE, 255];
+    const ghost = encodeGhost(ys);
+
+    expect(ghost.path).toHaveLength(ys.length * 2);
+    expect(decodeGhost(ghost)).toEqual({ sampleMs: GHOST_SAMPLE_MS, ys: ys.map(Math.round) });
+  });
+
+  it('clamp heights to the playfield', () => {
+    const { ys } = decodeGhost(encodeGhost([-40, WORLD_HEIGHT + 40]));
+    expect(ys).toEqual([0, WORLD_HEIGHT - PLAYER_SIZE]);
+  });
+
+  it('decode damaged paths without throwing', () => {
+    expect(decodeGhost({ sampleMs: GHOST_SAMPLE_MS, path: '5a!!z' }).ys).toEqual([190, 0]);
+  });
+
+  it('interpolate between samples and end with the run', () => {
+    const run = decodeGhost(encodeGhost([100, 200, 300]));
+
+    expect(getGhostY(run, 0)).toBe(100);
+    expect(getGhostY(run, GHOST_SAMPLE_MS * 1.5)).toBe(250);
+    expect(getGhostY(run, GHOST_SAMPLE_MS * 2)).toBeNull();
+    expect(getGhostY(run, -1)).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import { PLAYER_SIZE, WORLD_HEIGHT } from './constants';
+
+// The vertical path of a run, saved with the best score so later runs can
+// chase a translucent copy of it. Heights are sampled every sampleMs and
+// written as whole pixels in two base 36 digits each, about 1.2 KB a minute.
+export interface Ghost {
+  sampleMs: number;
+  path: string;
+}
+
+// A Ghost decoded for playback
+export interface GhostRun {
+  sampleMs: number;
+  ys: number[];
+}
+
+export const GHOST_SAMPLE_MS = 100;
+
+const DIGITS = 2;
+const MAX_Y = WORLD_HEIGHT - PLAYER_SIZE;
+
+export function encodeGhost(ys: number[], sampleMs = GHOST_SAMPLE_MS): Ghost {
+  const path = ys
+    .map(y => Math.round(Math.max(0, Math.min(MAX_Y, y))).toString(36).padStart(DIGITS, '0'))
+    .join('');
+  return { sampleMs, path };
+}
+
+export function decodeGhost(ghost: Ghost): GhostRun {
+  const ys: number[] = [];
+  for (let i = 0; i + DIGITS <= ghost.path.length; i += DIGITS) {
+    const y = parseInt(ghost.path.slice(i, i + DIGITS), 36);
+    ys.push(Number.isNaN(y) ? 0 : Math.min(MAX_Y, y));
+  }
+  return { sampleMs: ghost.sampleMs, ys };
+}
+
+// Where the ghost was at this point of its run, between samples; null once
+// its run had ended
+export function getGhostY(ghost: GhostRun, time: number): number | null {
+  const position = time / ghost.sampleMs;
+  const index = Math.floor(position);
+  if (index < 0 || index >= ghost.ys.length - 1) return null;
+
+  const t = position - index;
+  return ghost.ys[index] + (ghost.ys[index + 1] - ghost.ys[index]) * t;
+}
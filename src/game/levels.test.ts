@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { WORLD_HEIGHT } from './constants';
+import { createEmptyLevel, exportLevel, LEVEL_VERSION, parseLevel } from './levels';
+
+const valid = () => ({
+  ...createEmptyLevel(),
+  obstacles: [
+    { kind: 'wall', x: 900, y: 0, height: 150 },
+    { kind: 'block', x: 600, y: 100 }
+  ]
+});
+
+const errorsOf = (value: unknown) => {
+  const result = parseLevel(value);
+  return 'errors' in result ? result.errors : [];
+};
+
+describe('parseLevel', () => {
+  it('accepts a valid level with its obstacles sorted along the course', () => {
+    const result = parseLevel(valid());
+    expect('level' in result && result.level.obstacles.map(obstacle => obstacle.x)).toEqual([600, 900]);
+  });
+
+  it('reads back an exported level unchanged', () => {
+    const result = parseLevel(valid());
+    if (!('level' in result)) throw new Error('Expected a level');
+    expect(parseLevel(JSON.parse(exportLevel(result.level)))).toEqual(result);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(errorsOf(null)).toEqual([{ code: 'levelNotObject' }]);
+    expect(errorsOf('level')).toEqual([{ code: 'levelNotObject' }]);
+  });
+
+  it('reports every problem with the level fields', () => {
+    expect(
+      errorsOf({ version: LEVEL_VERSION + 1, id: '', name: 3, description: 4, echoBudget: 1.5, finishX: 0, speedCurve: [], obstacles: {} })
+    ).toEqual([
+      { code: 'unsupportedVersion', version: String(LEVEL_VERSION + 1) },
+      { code: 'invalidId' },
+      { code: 'invalidName' },
+      { code: 'invalidDescription' },
+      { code: 'invalidEchoBudget' },
+      { code: 'invalidFinishX' },
+      { code: 'emptySpeedCurve' },
+      { code: 'obstaclesNotList' }
+    ]);
+  });
+
+  it('rejects bad speed points', () => {
+    expect(errorsOf({ ...valid(), speedCurve: [{ distance: 0, speed: 0 }] })).toEqual([{ code: 'invalidSpeedPoint' }]);
+  });
+
+  it('only lets settings override difficulty fields other than the echo count', () => {
+    expect(errorsOf({ ...valid(), settings: { echoCount: 3, gravity: 1 } })).toEqual([
+      { code: 'unknownSettings', keys: ['echoCount', 'gravity'] }
+    ]);
+    expect(errorsOf({ ...valid(), settings: { echoSpeed: 99 } })).toEqual([
+      { code: 'fieldOutOfRange', field: 'echoSpeed', min: 0.5, max: 8 }
+    ]);
+    expect(errorsOf({ ...valid(), settings: 'fast' })).toEqual([{ code: 'settingsNotObject' }]);
+  });
+
+  it('reports obstacles by index', () => {
+    expect(
+      errorsOf({
+        ...valid(),
+        obstacles: [
+          null,
+          { kind: 'lava', x: 0, y: 0 },
+          { kind: 'block', x: -1, y: 0 },
+          { kind: 'block', x: 0, y: WORLD_HEIGHT + 1 },
+          { kind: 'moving', x: 0, y: 0, periodMs: 0 }
+        ]
+      })
+    ).toEqual([
+      { code: 'obstacleNotObject', index: 0 },
+      { code: 'unknownObstacleKind', index: 1, kind: 'lava' },
+      { code: 'invalidObstacleX', index: 2 },
+      { code: 'invalidObstacleY', index: 3, max: WORLD_HEIGHT },
+      { code: 'invalidObstacleField', index: 4, field: 'periodMs' }
+    ]);
+  });
+});
@@ -0,0 +1,274 @@
+// Hand-authored finite courses. A level is plain JSON: obstacle placements
+// along the course, the pings the player gets, how fast the course scrolls
+// at each point and where the finish line is. See parseLevel for the rules.
+
+import { DIFFICULTY_SETTINGS, OBSTACLE_HEIGHT, OBSTACLE_WIDTH, PLAYER_X, WORLD_HEIGHT } from './constants';
+import { DIFFICULTY_FIELDS, validateDifficultySettings } from './difficulty';
+import type { DifficultyError } from './difficulty';
+import type { DifficultySettings, Obstacle, ObstacleKind } from './types';
+
+export const LEVEL_VERSION = 1;
+
+export interface LevelObstacle {
+  kind: ObstacleKind;
+  // Course position of the left edge, in world px from the start
+  x: number;
+  y: number;
+  // Default to the standard block size
+  width?: number;
+  height?: number;
+  // 'moving' only: swings amplitude px either side of y
+  amplitude?: number;
+  periodMs?: number;
+  // Radians
+  phase?: number;
+}
+
+export interface SpeedPoint {
+  // Course position, in world px
+  distance: number;
+  // Scroll speed in px per reference frame
+  speed: number;
+}
+
+export interface Level {
+  version: number;
+  id: string;
+  name: string;
+  description?: string;
+  // Pings for the whole level; they don't refill
+  echoBudget: number;
+  // Overrides on top of medium difficulty for everything but the budget
+  settings?: Partial<Omit<DifficultySettings, 'echoCount'>>;
+  // Scroll speed, interpolated linearly between points and held after the last
+  speedCurve: SpeedPoint[];
+  // Course position of the finish line
+  finishX: number;
+  // Sorted by x
+  obstacles: LevelObstacle[];
+}
+
+// Completion record for one level, keyed by level id in storage
+export interface LevelRecord {
+  completions: number;
+  // Fastest completion in milliseconds
+  bestTimeMs: number | null;
+}
+
+type ObstacleField = 'width' | 'height' | 'amplitude' | 'periodMs' | 'phase';
+
+// A problem with an untrusted level, rendered through the message catalog.
+// Obstacle indexes are zero-based.
+export type LevelError =
+  | DifficultyError
+  | { code: 'levelNotObject' }
+  | { code: 'unsupportedVersion'; version: string }
+  | { code: 'invalidId' }
+  | { code: 'invalidName' }
+  | { code: 'invalidDescription' }
+  | { code: 'invalidEchoBudget' }
+  | { code: 'invalidFinishX' }
+  | { code: 'unknownSettings'; keys: string[] }
+  | { code: 'emptySpeedCurve' }
+  | { code: 'invalidSpeedPoint' }
+  | { code: 'obstaclesNotList' }
+  | { code: 'obstacleNotObject'; index: number }
+  | { code: 'unknownObstacleKind'; index: number; kind: string }
+  | { code: 'invalidObstacleX'; index: number }
+  | { code: 'invalidObstacleY'; index: number; max: number }
+  | { code: 'invalidObstacleField'; index: number; field: ObstacleField };
+
+export const OBSTACLE_KINDS: ObstacleKind[] = ['block', 'moving', 'pillar', 'wall', 'phantom'];
+
+export function getLevelSettings(level: Level): DifficultySettings {
+  return { ...DIFFICULTY_SETTINGS.medium, ...level.settings, echoCount: level.echoBudget };
+}
+
+export function getLevelSpeed(level: Level, distance: number): number {
+  const curve = level.speedCurve;
+  if (distance <= curve[0].distance) return curve[0].speed;
+
+  for (let i = 1; i < curve.length; i++) {
+    const to = curve[i];
+    if (distance < to.distance) {
+      const from = curve[i - 1];
+      return from.speed + ((to.speed - from.speed) * (distance - from.distance)) / (to.distance - from.distance);
+    }
+  }
+  return curve[curve.length - 1].speed;
+}
+
+// Distance scrolled when the finish line reaches the player and the level ends
+export function getFinishDistance(level: Level): number {
+  return level.finishX - PLAYER_X;
+}
+
+// Share of the course behind the player, from 0 to 1
+export function getLevelProgress(level: Level, distance: number): number {
+  const finish = getFinishDistance(level);
+  return finish > 0 ? Math.max(0, Math.min(1, distance / finish)) : 1;
+}
+
+// The obstacle as it appears in the world once the course has scrolled by distance
+export function createLevelObstacle(placement: LevelObstacle, id: number, distance: number): Obstacle {
+  const obstacle: Obstacle = {
+    id,
+    kind: placement.kind,
+    x: placement.x - distance,
+    y: placement.y,
+    width: placement.width ?? OBSTACLE_WIDTH,
+    height: placement.height ?? OBSTACLE_HEIGHT,
+    revealed: false,
+    revealTimer: 0,
+    revealedFaces: []
+  };
+  if (placement.kind === 'moving') {
+    const motion = {
+      baseY: placement.y,
+      amplitude: placement.amplitude ?? 0,
+      periodMs: placement.periodMs ?? 2000,
+      phase: placement.phase ?? 0
+    };
+    obstacle.motion = motion;
+    obstacle.y = motion.baseY + motion.amplitude * Math.sin(motion.phase);
+  }
+  return obstacle;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function parseObstacle(value: unknown, index: number, errors: LevelError[]): LevelObstacle | null {
+  if (typeof value !== 'object' || value === null) {
+    errors.push({ code: 'obstacleNotObject', index });
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const kind = record.kind as ObstacleKind;
+  if (!OBSTACLE_KINDS.includes(kind)) {
+    errors.push({ code: 'unknownObstacleKind', index, kind: String(record.kind) });
+    return null;
+  }
+  if (!isNumber(record.x) || record.x < 0) {
+    errors.push({ code: 'invalidObstacleX', index });
+    return null;
+  }
+  if (!isNumber(record.y) || record.y < 0 || record.y > WORLD_HEIGHT) {
+    errors.push({ code: 'invalidObstacleY', index, max: WORLD_HEIGHT });
+    return null;
+  }
+
+  const obstacle: LevelObstacle = { kind, x: record.x, y: record.y };
+  for (const field of ['width', 'height', 'amplitude', 'periodMs', 'phase'] satisfies ObstacleField[]) {
+    const fieldValue = record[field];
+    if (fieldValue === undefined) continue;
+    if (!isNumber(fieldValue) || (field !== 'phase' && fieldValue <= 0)) {
+      errors.push({ code: 'invalidObstacleField', index, field });
+      return null;
+    }
+    obstacle[field] = fieldValue;
+  }
+  return obstacle;
+}
+
+// Checks an untrusted value (a bundled or imported level) and returns it in
+// canonical form, or the problems found.
+export function parseLevel(value: unknown): { level: Level } | { errors: LevelError[] } {
+  if (typeof value !== 'object' || value === null) {
+    return { errors: [{ code: 'levelNotObject' }] };
+  }
+
+  const record = value as Record<string, unknown>;
+  const errors: LevelError[] = [];
+  if (record.version !== LEVEL_VERSION) {
+    errors.push({ code: 'unsupportedVersion', version: String(record.version) });
+  }
+  if (typeof record.id !== 'string' || !record.id) errors.push({ code: 'invalidId' });
+  if (typeof record.name !== 'string' || !record.name) errors.push({ code: 'invalidName' });
+  if (record.description !== undefined && typeof record.description !== 'string') {
+    errors.push({ code: 'invalidDescription' });
+  }
+  if (!isNumber(record.echoBudget) || record.echoBudget < 0 || !Number.isInteger(record.echoBudget)) {
+    errors.push({ code: 'invalidEchoBudget' });
+  }
+  if (!isNumber(record.finishX) || record.finishX <= 0) errors.push({ code: 'invalidFinishX' });
+
+  let settings: Level['settings'];
+  if (record.settings !== undefined) {
+    const overrides = record.settings;
+    if (typeof overrides !== 'object' || overrides === null) {
+      errors.push({ code: 'settingsNotObject' });
+    } else {
+      const unknownKeys = Object.keys(overrides).filter(
+        key => key === 'echoCount' || !(DIFFICULTY_FIELDS as string[]).includes(key)
+      );
+      // Checked merged onto the defaults they'd apply to
+      const result = validateDifficultySettings({ ...DIFFICULTY_SETTINGS.medium, ...overrides });
+      if (unknownKeys.length > 0) {
+        errors.push({ code: 'unknownSettings', keys: unknownKeys });
+      } else if (result.settings) {
+        settings = overrides as Level['settings'];
+      } else {
+        errors.push(...result.errors);
+      }
+    }
+  }
+
+  const speedCurve: SpeedPoint[] = [];
+  if (!Array.isArray(record.speedCurve) || record.speedCurve.length === 0) {
+    errors.push({ code: 'emptySpeedCurve' });
+  } else {
+    for (const point of record.speedCurve as unknown[]) {
+      const { distance, speed } = (point ?? {}) as Record<string, unknown>;
+      if (!isNumber(distance) || !isNumber(speed) || speed <= 0) {
+        errors.push({ code: 'invalidSpeedPoint' });
+        break;
+      }
+      speedCurve.push({ distance, speed });
+    }
+    speedCurve.sort((a, b) => a.distance - b.distance);
+  }
+
+  const obstacles: LevelObstacle[] = [];
+  if (!Array.isArray(record.obstacles)) {
+    errors.push({ code: 'obstaclesNotList' });
+  } else {
+    (record.obstacles as unknown[]).forEach((obstacle, index) => {
+      const parsed = parseObstacle(obstacle, index, errors);
+      if (parsed) obstacles.push(parsed);
+    });
+    obstacles.sort((a, b) => a.x - b.x);
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    level: {
+      version: LEVEL_VERSION,
+      id: record.id as string,
+      name: record.name as string,
+      description: record.description as string | undefined,
+      echoBudget: record.echoBudget as number,
+      settings,
+      speedCurve,
+      finishX: record.finishX as number,
+      obstacles
+    }
+  };
+}
+
+// Starting point for a new level in the editor
+export function createEmptyLevel(): Level {
+  return {
+    version: LEVEL_VERSION,
+    id: 'my-level',
+    name: 'My Level',
+    echoBudget: 6,
+    speedCurve: [{ distance: 0, speed: 2.5 }],
+    finishX: 3000,
+    obstacles: []
+  };
+}
+
+export function exportLevel(level: Level): string {
+  return JSON.stringify(level, null, 2);
+}
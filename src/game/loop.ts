@@ -0,0 +1,47 @@
+import { FIXED_STEP_MS } from './constants';
+
+// Never simulate more than this much real time in one frame, so a stalled or
+// backgrounded tab resumes where it left off instead of fast-forwarding.
+const MAX_FRAME_MS = 250;
+
+export interface FixedStepLoopHandlers {
+  // Advances the simulation by one FIXED_STEP_MS tick. Return false to stop.
+  update: () => boolean;
+  // Draws the latest state; alpha is how far real time has moved past the
+  // last tick, from 0 to 1, for interpolating positions.
+  render: (alpha: number) => void;
+}
+
+// Runs update() at a fixed rate from real elapsed time and render() once per
+// animation frame. Returns a function that stops the loop.
+export function startFixedStepLoop({ update, render }: FixedStepLoopHandlers): () => void {
+  let frameId = 0;
+  let lastFrame: number | null = null;
+  let accumulator = 0;
+  let stopped = false;
+
+  const frame = (now: number) => {
+    if (stopped) return;
+
+    accumulator += lastFrame === null ? 0 : Math.min(now - lastFrame, MAX_FRAME_MS);
+    lastFrame = now;
+
+    while (accumulator >= FIXED_STEP_MS) {
+      accumulator -= FIXED_STEP_MS;
+      if (!update()) {
+        stopped = true;
+        render(1);
+        return;
+      }
+    }
+
+    render(accumulator / FIXED_STEP_MS);
+    frameId = requestAnimationFrame(frame);
+  };
+
+  frameId = requestAnimationFrame(frame);
+  return () => {
+    stopped = true;
+    cancelAnimationFrame(frameId);
+  };
+}
@@ -0,0 +1,59 @@
+import { OBSTACLE_HEIGHT, OBSTACLE_WIDTH, WORLD_HEIGHT } from './constants';
+import type { Obstacle, ObstacleKind, ObstacleMotion } from './types';
+
+export const PILLAR_MIN_HEIGHT = 140;
+export const PILLAR_MAX_HEIGHT = 240;
+export const MOVING_MIN_AMPLITUDE = 40;
+export const MOVING_MAX_AMPLITUDE = 100;
+export const MOVING_MIN_PERIOD_MS = 1500;
+export const MOVING_MAX_PERIOD_MS = 3000;
+// Wide enough for the player with room to spare
+export const WALL_GAP_HEIGHT = 90;
+
+function baseObstacle(id: number, kind: ObstacleKind, x: number, y: number, height: number): Obstacle {
+  return { id, kind, x, y, width: OBSTACLE_WIDTH, height, revealed: false, revealTimer: 0, revealedFaces: [] };
+}
+
+// A standard-size block, solid or phantom
+export function createBlock(id: number, x: number, y: number, phantom = false): Obstacle {
+  return baseObstacle(id, phantom ? 'phantom' : 'block', x, y, OBSTACLE_HEIGHT);
+}
+
+export function createPillar(id: number, x: number, height: number, fromCeiling: boolean): Obstacle {
+  return baseObstacle(id, 'pillar', x, fromCeiling ? 0 : WORLD_HEIGHT - height, height);
+}
+
+export function createMovingBlock(id: number, x: number, motion: ObstacleMotion): Obstacle {
+  return { ...baseObstacle(id, 'moving', x, 0, OBSTACLE_HEIGHT), y: obstacleYAfter({ motion, y: 0 }, 0), motion };
+}
+
+// A full-height wall as two segments, above and below the gap
+export function createWall(firstId: number, x: number, gapY: number): Obstacle[] {
+  return [
+    baseObstacle(firstId, 'wall', x, 0, gapY),
+    baseObstacle(firstId + 1, 'wall', x, gapY + WALL_GAP_HEIGHT, WORLD_HEIGHT - gapY - WALL_GAP_HEIGHT)
+  ];
+}
+
+// Where the obstacle will be after another dtMs, ignoring the scroll
+export function obstacleYAfter(obstacle: Pick<Obstacle, 'y' | 'motion'>, dtMs: number): number {
+  const { motion } = obstacle;
+  if (!motion) return obstacle.y;
+  return motion.baseY + motion.amplitude * Math.sin(motion.phase + (2 * Math.PI * dtMs) / motion.periodMs);
+}
+
+// Per-kind movement for this step, on top of the shared scroll
+export function moveObstacle(obstacle: Obstacle, dtMs: number): Obstacle {
+  const { motion } = obstacle;
+  if (!motion) return obstacle;
+
+  return {
+    ...obstacle,
+    y: obstacleYAfter(obstacle, dtMs),
+    motion: { ...motion, phase: (motion.phase + (2 * Math.PI * dtMs) / motion.periodMs) % (2 * Math.PI) }
+  };
+}
+
+export function isSolid(obstacle: Obstacle): boolean {
+  return obstacle.kind !== 'phantom';
+}
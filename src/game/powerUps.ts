@@ -0,0 +1,91 @@
+import { WORLD_HEIGHT } from './constants';
+import type { Obstacle, Pickup, PowerUpKind } from './types';
+
+export type TimedPowerUp = 'wideSonar' | 'slowTime' | 'lingeringReveal';
+
+// What the player currently has going
+export interface PowerUpEffects {
+  // Milliseconds left on each timed power-up
+  timers: Record<TimedPowerUp, number>;
+  shield: boolean;
+}
+
+interface PowerUpInfo {
+  color: string;
+  // Timed power-ups only
+  durationMs?: number;
+  // Relative chance of being the one that spawns
+  weight: number;
+}
+
+export const POWER_UPS: Record<PowerUpKind, PowerUpInfo> = {
+  extraPing: { color: '#60a5fa', weight: 4 },
+  wideSonar: { color: '#22d3ee', durationMs: 8000, weight: 2 },
+  slowTime: { color: '#a3e635', durationMs: 5000, weight: 2 },
+  shield: { color: '#facc15', weight: 1 },
+  lingeringReveal: { color: '#f472b6', durationMs: 10000, weight: 2 }
+};
+
+export const TIMED_POWER_UPS: TimedPowerUp[] = ['wideSonar', 'slowTime', 'lingeringReveal'];
+
+export const PICKUP_SIZE = 18;
+export const WIDE_SONAR_RADIUS_MULTIPLIER = 1.6;
+export const SLOW_TIME_SPEED_MULTIPLIER = 0.6;
+export const LINGERING_REVEAL_MULTIPLIER = 2;
+// Chance of a pickup in the gap after each generated chunk
+export const PICKUP_CHANCE = 0.3;
+const PLACEMENT_ATTEMPTS = 4;
+const EDGE_MARGIN = 30;
+
+export const NO_EFFECTS: PowerUpEffects = {
+  timers: { wideSonar: 0, slowTime: 0, lingeringReveal: 0 },
+  shield: false
+};
+
+function pickKind(random: () => number): PowerUpKind {
+  const kinds = Object.keys(POWER_UPS) as PowerUpKind[];
+  let roll = random() * kinds.reduce((sum, kind) => sum + POWER_UPS[kind].weight, 0);
+  for (const kind of kinds) {
+    roll -= POWER_UPS[kind].weight;
+    if (roll < 0) return kind;
+  }
+  return 'extraPing';
+}
+
+const overlaps = (x: number, y: number, obstacle: Obstacle) =>
+  x + PICKUP_SIZE > obstacle.x && x < obstacle.x + obstacle.width &&
+  y + PICKUP_SIZE > obstacle.y && y < obstacle.y + obstacle.height;
+
+// A pickup at x somewhere clear of the given obstacles, or null if no clear
+// spot turned up
+export function createPickup(id: number, x: number, obstacles: Obstacle[], random: () => number): Pickup | null {
+  const kind = pickKind(random);
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+    const y = EDGE_MARGIN + random() * (WORLD_HEIGHT - PICKUP_SIZE - 2 * EDGE_MARGIN);
+    if (!obstacles.some(obstacle => overlaps(x, y, obstacle))) {
+      return { id, kind, x, y, revealed: false, revealTimer: 0 };
+    }
+  }
+  return null;
+}
+
+export function tickEffects(effects: PowerUpEffects, dtMs: number): PowerUpEffects {
+  if (TIMED_POWER_UPS.every(kind => effects.timers[kind] === 0)) return effects;
+  return {
+    ...effects,
+    timers: {
+      wideSonar: Math.max(0, effects.timers.wideSonar - dtMs),
+      slowTime: Math.max(0, effects.timers.slowTime - dtMs),
+      lingeringReveal: Math.max(0, effects.timers.lingeringReveal - dtMs)
+    }
+  };
+}
+
+// Starts (or restarts) a timed power-up, or raises the shield. Extra pings
+// are handled by the engine since they touch the ping count.
+export function applyPowerUp(effects: PowerUpEffects, kind: PowerUpKind): PowerUpEffects {
+  if (kind === 'shield') return { ...effects, shield: true };
+  const durationMs = POWER_UPS[kind].durationMs;
+  if (durationMs === undefined) return effects;
+  return { ...effects, timers: { ...effects.timers, [kind]: durationMs } };
+}
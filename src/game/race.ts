@@ -0,0 +1,93 @@
+import { SPEED_RAMP_PER_FRAME } from './constants';
+import { createGameState, interpolateState, step } from './engine';
+import type { GameConfig, GameInput, GameState } from './engine';
+import { generateChunk, SPAWN_X } from './generator';
+import { nextRandom } from './rng';
+
+// A race runs one engine state per player over a single generated course.
+// The race places every chunk into all the runners at once, while pings,
+// echoes and reveals stay in each runner's own state, so a player only ever
+// sees what their own sonar found.
+
+export const RACE_PLAYERS = 2;
+
+export interface RaceState {
+  runners: GameState[];
+  status: 'running' | 'over';
+  // Index of the last runner left, or null if everyone crashed in the same step
+  winner: number | null;
+  spawnCursor: number;
+  nextObstacleId: number;
+  rngState: number;
+}
+
+export type RaceConfig = Omit<GameConfig, 'level' | 'startDistance' | 'sharedCourse'>;
+
+export function createRace(config: RaceConfig, players = RACE_PLAYERS): RaceState {
+  const runner = createGameState({ ...config, sharedCourse: true });
+  return {
+    runners: Array.from({ length: players }, () => runner),
+    status: 'running',
+    winner: null,
+    spawnCursor: runner.spawnCursor,
+    nextObstacleId: 0,
+    rngState: config.seed
+  };
+}
+
+// Steps every runner still going, then spawns the next chunk for all of
+// them. Every runner scrolls at the same speed, so the course is in the same
+// place for each; the first runner alive at the start of the step sets the pace.
+export function stepRace(race: RaceState, inputs: GameInput[], dtMs: number): RaceState {
+  if (race.status !== 'running') return race;
+
+  const pacer = race.runners.findIndex(runner => runner.status === 'running');
+  let runners = race.runners.map((runner, i) => step(runner, inputs[i], dtMs));
+  const lead = runners[pacer];
+  let { nextObstacleId, rngState } = race;
+  let spawnCursor = race.spawnCursor - (lead.distance - race.runners[pacer].distance);
+  const random = () => {
+    const [value, next] = nextRandom(rngState);
+    rngState = next;
+    return value;
+  };
+
+  const alive = runners.filter(runner => runner.status === 'running');
+  if (alive.length > 0 && spawnCursor <= SPAWN_X) {
+    const { settings } = lead.config;
+    const chunk = generateChunk({
+      obstacles: lead.obstacles,
+      playerYs: alive.map(runner => runner.player.y),
+      gameSpeed: lead.gameSpeed,
+      speedRamp: SPEED_RAMP_PER_FRAME * settings.gameSpeedMultiplier,
+      density: settings.obstacleSpawnRate,
+      distance: lead.distance,
+      nextObstacleId,
+      x: SPAWN_X
+    }, random);
+    nextObstacleId += chunk.obstacles.length;
+    spawnCursor = chunk.nextX;
+    runners = runners.map(runner =>
+      runner.status === 'running' ? { ...runner, obstacles: [...runner.obstacles, ...chunk.obstacles] } : runner
+    );
+  }
+
+  const over = alive.length <= 1;
+  return {
+    runners,
+    status: over ? 'over' : 'running',
+    winner: over && alive.length === 1 ? runners.indexOf(alive[0]) : null,
+    spawnCursor,
+    nextObstacleId,
+    rngState
+  };
+}
+
+export function interpolateRace(previous: RaceState, current: RaceState, alpha: number): RaceState {
+  if (alpha >= 1 || previous === current) return current;
+
+  return {
+    ...current,
+    runners: current.runners.map((runner, i) => interpolateState(previous.runners[i], runner, alpha))
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_SETTINGS, FIXED_STEP_MS, MOVE_LEVELS } from './constants';
+import { ECHO_KINDS } from './echoes';
+import { createGameState, SIMULATION_VERSION, step } from './engine';
+import type { GameInput, GameState } from './engine';
+import {
+  buildReplayTimeline,
+  decodeInputs,
+  encodeInputs,
+  getReplayState,
+  packInput,
+  REPLAY_VERSION,
+  unpackInput
+} from './replay';
+import type { Replay } from './replay';
+
+const SEED = 12345;
+const MAX_TICKS = 3000;
+
+// Weaves up and down and cycles through the sonar abilities, using only
+// movement levels the input manager can produce
+function scriptedInput(tick: number): GameInput {
+  return {
+    move: tick % 240 < 120 ? -0.5 : 0.75,
+    ping: tick % 90 === 0 ? ECHO_KINDS[(tick / 90) % ECHO_KINDS.length] : null
+  };
+}
+
+function playScripted(): { state: GameState; inputs: number[] } {
+  let state = createGameState({ settings: DIFFICULTY_SETTINGS.medium, mode: 'infinite', seed: SEED });
+  const inputs: number[] = [];
+  while (state.status === 'running' && inputs.length < MAX_TICKS) {
+    const input = scriptedInput(inputs.length);
+    inputs.push(packInput(input));
+    state = step(state, input, FIXED_STEP_MS);
+  }
+  return { state, inputs };
+}
+
+describe('input encoding', () => {
+  it('packs every movement level and ability into one base 36 digit', () => {
+    for (let level = -MOVE_LEVELS; level <= MOVE_LEVELS; level++) {
+      for (const ping of [null, ...ECHO_KINDS]) {
+        const input = { move: level / MOVE_LEVELS, ping };
+        const packed = packInput(input);
+        expect(packed).toBeLessThan(36);
+        expect(unpackInput(packed, REPLAY_VERSION)).toEqual(input);
+      }
+    }
+  });
+
+  it('run-length encodes held inputs', () => {
+    const inputs = [4, 4, 4, 4, 13, 4, 4];
+    const encoded = encodeInputs(inputs);
+    expect(encoded).toBe('44,d,42');
+    expect(decodeInputs(encoded)).toEqual(inputs);
+  });
+});
+
+describe('replays', () => {
+  it('reproduce the recorded run from the encoded inputs', () => {
+    const { state, inputs } = playScripted();
+    const replay: Replay = {
+      version: REPLAY_VERSION,
+      simulationVersion: SIMULATION_VERSION,
+      seed: SEED,
+      difficulty: 'medium',
+      gameMode: 'infinite',
+      ticks: inputs.length,
+      inputs: encodeInputs(inputs)
+    };
+
+    const timeline = buildReplayTimeline(replay);
+    expect(timeline.finalState).toEqual(state);
+    // Seeking from a checkpoint lands on the same state as playing through
+    expect(getReplayState(timeline, inputs.length - 1)).toEqual(
+      buildReplayTimeline({ ...replay, ticks: inputs.length - 1 }).finalState
+    );
+  });
+});
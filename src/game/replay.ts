@@ -0,0 +1,124 @@
+import { FIXED_STEP_MS, MOVE_LEVELS } from './constants';
+import { resolveDifficultySettings } from './difficulty';
+import { ECHO_KINDS } from './echoes';
+import { createGameState, NO_INPUT, step } from './engine';
+import type { GameInput, GameState } from './engine';
+import type { Difficulty, DifficultySettings, GameMode } from './types';
+
+// Everything needed to re-simulate a run tick for tick. Because the engine is
+// deterministic for a given seed, the inputs alone reproduce the whole run.
+export interface Replay {
+  // Input encoding, see packInput
+  version: number;
+  // SIMULATION_VERSION of the engine that recorded it
+  simulationVersion: number;
+  seed: number;
+  difficulty: Difficulty;
+  // Parameters of a custom difficulty run
+  customSettings?: DifficultySettings;
+  gameMode: GameMode;
+  ticks: number;
+  // Run-length encoded input log, see encodeInputs
+  inputs: string;
+}
+
+export interface ReplayTimeline {
+  replay: Replay;
+  inputs: number[];
+  // State after every CHECKPOINT_INTERVAL ticks, for fast seeking
+  checkpoints: GameState[];
+  finalState: GameState;
+}
+
+export const REPLAY_VERSION = 3;
+
+// The quantized movement level, plus which sonar ability fired, if any
+const MOVE_STATES = MOVE_LEVELS * 2 + 1;
+const CHECKPOINT_INTERVAL = 300;
+
+// Packs one tick of input into a number below 36, so it is a single base 36 digit
+export function packInput(input: GameInput): number {
+  const level = Math.round(Math.max(-1, Math.min(1, input.move)) * MOVE_LEVELS) + MOVE_LEVELS;
+  return level + (input.ping ? ECHO_KINDS.indexOf(input.ping) + 1 : 0) * MOVE_STATES;
+}
+
+export function unpackInput(value: number, version: number): GameInput {
+  if (version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay input version ${version}`);
+  }
+  const move = ((value % MOVE_STATES) - MOVE_LEVELS) / MOVE_LEVELS;
+  const ability = Math.floor(value / MOVE_STATES);
+  return { move, ping: ability > 0 ? ECHO_KINDS[ability - 1] : null };
+}
+
+// One run per change of input, written as the packed input followed by the
+// tick count in base 36: "4k,0c,d,..." Held keys compress to a few bytes.
+export function encodeInputs(inputs: number[]): string {
+  const runs: string[] = [];
+  let i = 0;
+  while (i < inputs.length) {
+    let count = 1;
+    while (i + count < inputs.length && inputs[i + count] === inputs[i]) {
+      count++;
+    }
+    runs.push(`${inputs[i].toString(36)}${count === 1 ? '' : count.toString(36)}`);
+    i += count;
+  }
+  return runs.join(',');
+}
+
+export function decodeInputs(encoded: string): number[] {
+  const inputs: number[] = [];
+  if (!encoded) return inputs;
+
+  for (const run of encoded.split(',')) {
+    const value = parseInt(run[0], 36);
+    const count = run.length > 1 ? parseInt(run.slice(1), 36) : 1;
+    for (let i = 0; i < count; i++) {
+      inputs.push(value);
+    }
+  }
+  return inputs;
+}
+
+export function createReplayState(replay: Replay): GameState {
+  return createGameState({
+    settings: resolveDifficultySettings(replay.difficulty, replay.customSettings),
+    mode: replay.gameMode,
+    seed: replay.seed
+  });
+}
+
+// Applies the input recorded for `tick` to the state at `tick`.
+export function stepReplay(timeline: ReplayTimeline, state: GameState, tick: number): GameState {
+  const packed = timeline.inputs[tick] ?? packInput(NO_INPUT);
+  return step(state, unpackInput(packed, timeline.replay.version), FIXED_STEP_MS);
+}
+
+export function buildReplayTimeline(replay: Replay): ReplayTimeline {
+  const inputs = decodeInputs(replay.inputs);
+  const timeline: ReplayTimeline = { replay, inputs, checkpoints: [], finalState: createReplayState(replay) };
+
+  let state = timeline.finalState;
+  for (let tick = 0; tick < replay.ticks; tick++) {
+    if (tick % CHECKPOINT_INTERVAL === 0) {
+      timeline.checkpoints.push(state);
+    }
+    state = stepReplay(timeline, state, tick);
+  }
+  timeline.finalState = state;
+  return timeline;
+}
+
+// State after `tick` ticks have been simulated
+export function getReplayState(timeline: ReplayTimeline, tick: number): GameState {
+  const target = Math.max(0, Math.min(tick, timeline.replay.ticks));
+  if (target === timeline.replay.ticks) return timeline.finalState;
+
+  const index = Math.floor(target / CHECKPOINT_INTERVAL);
+  let state = timeline.checkpoints[index];
+  for (let t = index * CHECKPOINT_INTERVAL; t < target; t++) {
+    state = stepReplay(timeline, state, t);
+  }
+  return state;
+}
@@ -0,0 +1,38 @@
+// Seedable PRNG (mulberry32) for all gameplay randomness. The generator state
+// is a single 32-bit integer that lives in GameState, so a seed fully
+// determines the course and the engine stays a pure function.
+
+export function nextRandom(state: number): [value: number, nextState: number] {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+}
+
+// FNV-1a, used to turn text such as a date into a seed
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+// UTC date, so everyone gets the same daily course whatever their timezone
+export function getDailyKey(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getDailySeed(dailyKey: string): number {
+  return hashString(`echorunner-daily-${dailyKey}`);
+}
+
+export function formatSeed(seed: number): string {
+  return seed.toString(16).toUpperCase().padStart(8, '0');
+}
@@ -0,0 +1,150 @@
+// Numbers collected over a run for the post-game breakdown and the run
+// history. Tracked by the engine so replays produce the same stats.
+
+import { PLAYER_SIZE, PLAYER_X } from './constants';
+import type { GameEvent } from './engine';
+import { isSolid } from './obstacles';
+import type { Difficulty, DifficultySettings, EchoKind, GameMode, Obstacle, ObstacleKind, Position } from './types';
+
+export interface RunStats {
+  // World px scrolled
+  distance: number;
+  durationMs: number;
+  pingsUsed: Record<EchoKind, number>;
+  // Solid obstacles that scrolled past the player, split by whether an echo
+  // had found them first
+  obstaclesRevealed: number;
+  obstaclesUnseen: number;
+  // Obstacles passed with less than NEAR_MISS_PX to spare
+  nearMisses: number;
+  peakSpeed: number;
+  // What ended the run, if something did
+  causeOfDeath: ObstacleKind | null;
+  // gameSpeed every SPEED_SAMPLE_MS from the start
+  speedSamples: number[];
+  // Obstacles currently alongside that have come within NEAR_MISS_PX
+  closeCallIds: number[];
+}
+
+// One finished run as kept in the history
+export interface RunRecord {
+  // ISO 8601
+  date: string;
+  mode: GameMode;
+  difficulty: Difficulty;
+  // Custom difficulty runs only
+  customSettings?: DifficultySettings;
+  // Level runs only
+  levelId?: string;
+  audioOnly?: boolean;
+  score: number;
+  stats: Omit<RunStats, 'speedSamples' | 'closeCallIds'>;
+}
+
+export const NEAR_MISS_PX = 10;
+export const SPEED_SAMPLE_MS = 1000;
+export const RUN_HISTORY_LIMIT = 50;
+
+export function createRunStats(gameSpeed: number): RunStats {
+  return {
+    distance: 0,
+    durationMs: 0,
+    pingsUsed: { ping: 0, cone: 0, pulse: 0 },
+    obstaclesRevealed: 0,
+    obstaclesUnseen: 0,
+    nearMisses: 0,
+    peakSpeed: gameSpeed,
+    causeOfDeath: null,
+    speedSamples: [gameSpeed],
+    closeCallIds: []
+  };
+}
+
+export interface StatsStep {
+  time: number;
+  // Distance covered this run and this step
+  distance: number;
+  scroll: number;
+  gameSpeed: number;
+  player: Position;
+  // Already scrolled for this step
+  obstacles: Obstacle[];
+  events: GameEvent[];
+}
+
+// Vertical space between the player and an obstacle alongside it; negative
+// when they overlap
+function verticalGap(player: Position, obstacle: Obstacle): number {
+  return Math.max(obstacle.y - (player.y + PLAYER_SIZE), player.y - (obstacle.y + obstacle.height));
+}
+
+export function updateRunStats(stats: RunStats, step: StatsStep): RunStats {
+  let { obstaclesRevealed, obstaclesUnseen, nearMisses, causeOfDeath } = stats;
+  let pingsUsed = stats.pingsUsed;
+  for (const event of step.events) {
+    if (event.type === 'ping') {
+      pingsUsed = { ...pingsUsed, [event.kind]: pingsUsed[event.kind] + 1 };
+    } else if (event.type === 'collision') {
+      causeOfDeath = event.obstacle.kind;
+    }
+  }
+
+  const closeCallIds = new Set(stats.closeCallIds);
+  for (const obstacle of step.obstacles) {
+    if (!isSolid(obstacle)) continue;
+
+    const right = obstacle.x + obstacle.width;
+    if (right < PLAYER_X && right + step.scroll >= PLAYER_X) {
+      if (obstacle.revealed) obstaclesRevealed++;
+      else obstaclesUnseen++;
+      if (closeCallIds.delete(obstacle.id)) nearMisses++;
+    } else if (obstacle.x < PLAYER_X + PLAYER_SIZE && right > PLAYER_X) {
+      const gap = verticalGap(step.player, obstacle);
+      if (gap >= 0 && gap < NEAR_MISS_PX) closeCallIds.add(obstacle.id);
+    }
+  }
+
+  const sampleDue = Math.floor(step.time / SPEED_SAMPLE_MS) > Math.floor(stats.durationMs / SPEED_SAMPLE_MS);
+  return {
+    distance: step.distance,
+    durationMs: step.time,
+    pingsUsed,
+    obstaclesRevealed,
+    obstaclesUnseen,
+    nearMisses,
+    peakSpeed: Math.max(stats.peakSpeed, step.gameSpeed),
+    causeOfDeath,
+    speedSamples: sampleDue ? [...stats.speedSamples, step.gameSpeed] : stats.speedSamples,
+    closeCallIds: [...closeCallIds]
+  };
+}
+
+export function getTotalPings(stats: Pick<RunStats, 'pingsUsed'>): number {
+  return stats.pingsUsed.ping + stats.pingsUsed.cone + stats.pingsUsed.pulse;
+}
+
+// Obstacles passed with an echo's help per ping spent, or null before the
+// first ping
+export function getEchoEfficiency(stats: Pick<RunStats, 'pingsUsed' | 'obstaclesRevealed'>): number | null {
+  const pings = getTotalPings(stats);
+  return pings > 0 ? stats.obstaclesRevealed / pings : null;
+}
+
+export function toRunRecord(stats: RunStats, details: Omit<RunRecord, 'date' | 'stats'>): RunRecord {
+  const summary: RunRecord['stats'] = {
+    distance: stats.distance,
+    durationMs: stats.durationMs,
+    pingsUsed: stats.pingsUsed,
+    obstaclesRevealed: stats.obstaclesRevealed,
+    obstaclesUnseen: stats.obstaclesUnseen,
+    nearMisses: stats.nearMisses,
+    peakSpeed: stats.peakSpeed,
+    causeOfDeath: stats.causeOfDeath
+  };
+  return { ...details, date: new Date().toISOString(), stats: summary };
+}
+
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
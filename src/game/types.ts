@@ -0,0 +1,111 @@
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Sides of an obstacle, for revealing only the ones an echo hit
+export type Face = 'top' | 'right' | 'bottom' | 'left';
+
+// block: the original static 30x60 block
+// moving: a block that swings up and down
+// pillar: a tall column standing on the floor or hanging from the ceiling
+// wall: one segment of a full-height wall that leaves a single gap
+// phantom: shows up on echo like a block but can be flown through
+export type ObstacleKind = 'block' | 'moving' | 'pillar' | 'wall' | 'phantom';
+
+// Vertical oscillation of a moving obstacle: y = baseY + amplitude * sin(phase)
+export interface ObstacleMotion {
+  baseY: number;
+  amplitude: number;
+  // Milliseconds for one full swing
+  periodMs: number;
+  // Radians, so obstacles spawned together don't move in lockstep
+  phase: number;
+}
+
+export interface Obstacle {
+  id: number;
+  kind: ObstacleKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  revealed: boolean;
+  revealTimer: number;
+  // Faces the echoes lighting it up have hit
+  revealedFaces: Face[];
+  motion?: ObstacleMotion;
+}
+
+// extraPing: one more ping (or an instant recharge in infinite mode)
+// wideSonar: bigger echoes for a while
+// slowTime: the course scrolls slower for a while
+// shield: survives the next collision
+// lingeringReveal: obstacles stay lit longer for a while
+export type PowerUpKind = 'extraPing' | 'wideSonar' | 'slowTime' | 'shield' | 'lingeringReveal';
+
+// Collectible that, like obstacles, can only be seen once an echo reaches it
+export interface Pickup {
+  id: number;
+  kind: PowerUpKind;
+  x: number;
+  y: number;
+  revealed: boolean;
+  revealTimer: number;
+}
+
+// ping: the original circle all around the player
+// cone: a narrow forward arc that reaches further
+// pulse: a slow, long-range circle on a long cooldown
+export type EchoKind = 'ping' | 'cone' | 'pulse';
+
+export interface Echo {
+  id: number;
+  kind: EchoKind;
+  x: number;
+  y: number;
+  radius: number;
+  maxRadius: number;
+  opacity: number;
+  speed: number;
+  // Opacity lost per reference frame
+  opacityDecay: number;
+  // Centre of the arc in radians (0 points ahead) and how far it reaches
+  // either side of it; Math.PI is a full circle
+  direction: number;
+  spread: number;
+  // Obstacles this echo has already bounced off, so each one returns once
+  hitObstacleIds: number[];
+  // Likewise for pickups
+  hitPickupIds: number[];
+}
+
+export type DifficultyPreset = 'easy' | 'medium' | 'hard' | 'nightmare';
+// 'custom' runs use player-tuned DifficultySettings carried alongside them
+export type Difficulty = DifficultyPreset | 'custom';
+// 'levels' plays a hand-authored course with a fixed ping budget
+export type GameMode = 'limited' | 'infinite' | 'levels';
+
+export interface DifficultySettings {
+  echoCount: number;
+  // Milliseconds between pings
+  echoInterval: number;
+  echoMaxRadius: number;
+  // Radius growth in px per reference frame
+  echoSpeed: number;
+  // Milliseconds an obstacle stays lit after an echo reaches it
+  echoRevealDuration: number;
+  // Opacity lost per reference frame
+  waveOpacityDecay: number;
+  // Obstacle density, 0 to 1: how busy the course starts out (it gets
+  // busier with distance) and how soon the harder patterns appear
+  obstacleSpawnRate: number;
+  gameSpeedMultiplier: number;
+}
@@ -0,0 +1,428 @@
+import type { AchievementId } from '../game/achievements';
+import type { Difficulty, DifficultySettings, EchoKind, GameMode, ObstacleKind, PowerUpKind } from '../game/types';
+import type { BindableAction } from '../input/InputManager';
+import type { ColorPalette } from '../render/palettes';
+
+// Every string the UI shows. This is the reference catalog: other languages
+// are typed against it, so a missing or misspelled key fails the build.
+// Messages that take numbers get them already formatted for the locale,
+// except where a count decides the wording.
+export const en = {
+  app: {
+    title: 'Echo Runner',
+    tagline: 'Navigate the dark world using sound echoes',
+    fullscreen: 'Fullscreen',
+    exitFullscreen: 'Exit fullscreen'
+  },
+
+  difficulties: {
+    easy: 'Easy',
+    medium: 'Medium',
+    hard: 'Hard',
+    nightmare: 'Nightmare',
+    custom: 'Custom'
+  } satisfies Record<Difficulty, string>,
+
+  modes: {
+    limited: 'Limited Echoes',
+    infinite: 'Infinite Echoes',
+    levels: 'Levels'
+  } satisfies Record<GameMode, string>,
+
+  echoes: {
+    ping: 'Ping',
+    cone: 'Cone',
+    pulse: 'Pulse'
+  } satisfies Record<EchoKind, string>,
+
+  powerUps: {
+    extraPing: 'Extra Ping',
+    wideSonar: 'Wide Sonar',
+    slowTime: 'Slow Time',
+    shield: 'Shield',
+    lingeringReveal: 'Lingering Reveal'
+  } satisfies Record<PowerUpKind, string>,
+
+  obstacles: {
+    block: 'Block',
+    moving: 'Moving block',
+    pillar: 'Pillar',
+    wall: 'Wall',
+    phantom: 'Phantom'
+  } satisfies Record<ObstacleKind, string>,
+
+  actions: {
+    up: 'Move Up',
+    down: 'Move Down',
+    ping: 'Ping',
+    cone: 'Cone Ping',
+    pulse: 'Long Pulse',
+    pause: 'Pause',
+    quit: 'Quit to Menu'
+  } satisfies Record<BindableAction, string>,
+
+  palettes: {
+    standard: { label: 'Standard', description: 'Red obstacles, blue player' },
+    redGreen: { label: 'Red-Green Safe', description: 'For protanopia and deuteranopia' },
+    blueYellow: { label: 'Blue-Yellow Safe', description: 'For tritanopia' }
+  } satisfies Record<ColorPalette, { label: string; description: string }>,
+
+  difficultyFields: {
+    echoCount: 'Echo Count',
+    echoInterval: 'Echo Interval',
+    echoMaxRadius: 'Echo Radius',
+    echoSpeed: 'Echo Speed',
+    echoRevealDuration: 'Reveal Duration',
+    waveOpacityDecay: 'Wave Fade',
+    obstacleSpawnRate: 'Obstacle Density',
+    gameSpeedMultiplier: 'Game Speed'
+  } satisfies Record<keyof DifficultySettings, string>,
+
+  achievements: {
+    firstSteps: { name: 'First Steps', description: 'Survive 30 seconds in a single run' },
+    nightmareSurvivor: { name: 'Nightmare Survivor', description: 'Survive 60 seconds on Nightmare' },
+    silentRunning: { name: 'Silent Running', description: 'Survive 30 seconds in Limited mode without a single ping' },
+    blindFaith: { name: 'Blind Faith', description: 'Pass 50 obstacles that were never revealed' },
+    speedDemon: { name: 'Speed Demon', description: 'Reach a speed of 5x' },
+    closeShave: { name: 'Close Shave', description: 'Make 10 near misses in a single run' },
+    marathon: { name: 'Marathon', description: 'Travel 100,000 in total' },
+    finishLine: { name: 'Finish Line', description: 'Complete a level' }
+  } satisfies Record<AchievementId, { name: string; description: string }>,
+
+  // Bundled levels by id; imported ones show the name and description they came with
+  levels: {
+    'first-light': { name: 'First Light', description: 'A gentle run of single blocks. Ping early, then steer.' },
+    columns: { name: 'Columns', description: 'Pillars from floor and ceiling, then a wall with a single gap.' },
+    drift: { name: 'Drift', description: 'Blocks that swing up and down, and echoes that lie.' },
+    blackout: { name: 'Blackout', description: 'Four pings, short reveals and a fast finish. Remember what you hear.' },
+    'audio-practice': {
+      name: 'Listening Practice',
+      description:
+        'A slow course for learning the echoes by ear: high returns are above you, low ones below, and a soft hollow tone is a phantom you can fly through.'
+    }
+  } satisfies Record<string, { name: string; description: string }>,
+
+  units: {
+    seconds: (value: string) => `${value}s`,
+    multiplier: (value: string) => `${value}x`
+  },
+
+  // Problems with imported or edited presets and levels. Field and key names
+  // are the JSON ones, left as written.
+  errors: {
+    invalidJson: 'Not valid JSON',
+    settingsNotObject: 'Settings must be an object',
+    fieldNotNumber: (label: string, field: string) => `${label} (${field}) must be a number`,
+    fieldOutOfRange: (label: string, field: string, min: string, max: string) =>
+      `${label} (${field}) must be between ${min} and ${max}`,
+    levelNotObject: 'Expected a level object',
+    unsupportedVersion: (version: string) => `Unsupported level version ${version}`,
+    invalidId: 'id must be a non-empty string',
+    invalidName: 'name must be a non-empty string',
+    invalidDescription: 'description must be a string',
+    invalidEchoBudget: 'echoBudget must be a whole number of pings',
+    invalidFinishX: 'finishX must be a positive number',
+    unknownSettings: (keys: string) => `settings can't set ${keys}`,
+    emptySpeedCurve: 'speedCurve needs at least one point',
+    invalidSpeedPoint: 'Every speedCurve point needs a distance and a positive speed',
+    obstaclesNotList: 'obstacles must be a list',
+    obstacleNotObject: (obstacle: string) => `Obstacle ${obstacle} must be an object`,
+    unknownObstacleKind: (obstacle: string, kind: string) => `Obstacle ${obstacle} has unknown kind "${kind}"`,
+    invalidObstacleX: (obstacle: string) => `Obstacle ${obstacle} needs a non-negative x`,
+    invalidObstacleY: (obstacle: string, max: string) => `Obstacle ${obstacle} needs a y between 0 and ${max}`,
+    invalidObstacleField: (obstacle: string, field: string) => `Obstacle ${obstacle} has an invalid ${field}`
+  },
+
+  common: {
+    menu: 'Menu',
+    backToMenu: 'Back to Menu',
+    exitToMenu: 'Exit to Menu',
+    cancel: 'Cancel',
+    resume: 'Resume',
+    tryAgain: 'Try Again',
+    save: 'Save',
+    import: 'Import',
+    export: 'Export',
+    score: 'Score',
+    speed: 'Speed',
+    best: 'Best',
+    pings: 'Pings',
+    seed: (seed: string) => `Seed ${seed}`,
+    withKey: (label: string, key: string) => `${label} (${key})`
+  },
+
+  menu: {
+    label: 'Main menu',
+    subtitle: 'Navigate through darkness using sound echoes',
+    mode: 'Mode',
+    difficulty: 'Difficulty',
+    audioOnly: 'Audio Only',
+    bestScore: 'Best Score',
+    totalScores: 'Total Scores',
+    startGame: 'Start Game',
+    dailyChallenge: 'Daily Challenge',
+    race: 'Two-Player Race',
+    practice: 'Listening Practice',
+    levels: 'Levels',
+    levelEditor: 'Level Editor',
+    settings: 'Settings',
+    scores: 'Scores',
+    awards: 'Awards',
+    tutorial: 'Tutorial',
+    quickControls: 'Quick Controls:',
+    movementKeys: (up: string, down: string) => `Movement: ${up} / ${down}`,
+    echoKeys: (ping: string, cone: string, pulse: string) => `Echo: ${ping} / ${cone} / ${pulse}`,
+    pauseKey: (pause: string) => `Pause: ${pause}`
+  },
+
+  soundRequired: {
+    message: 'Audio Only needs sound. Turn sound on and the volume up in Settings to start.',
+    openSettings: 'Open Settings',
+    dismiss: 'Dismiss'
+  },
+
+  tutorial: {
+    label: 'How to play',
+    title: 'How to Play',
+    movementTitle: 'Movement',
+    movement: (up: string, down: string) => `Use ${up} and ${down} to move up and down`,
+    touchTitle: 'Touch & Gamepad',
+    touch: 'Touch: hold the left strip to steer, tap anywhere else to ping. Gamepad: stick or D-pad to move, A to ping, Start to pause',
+    echoTitle: 'Echo System',
+    echo: (ping: string, cone: string, pulse: string) =>
+      `Press ${ping} to emit sound waves that reveal obstacles temporarily. ${cone} sends a narrow cone that reaches further ahead, and ${pulse} a slow pulse with a long range and a long cooldown. Each costs a ping and recharges on its own`,
+    powerUpsTitle: 'Power-ups',
+    powerUps: 'Diamonds hidden in the dark show up only when an echo finds them. Fly through one for an extra ping, wider sonar, slower time, a one-hit shield or longer-lasting reveals',
+    objectiveTitle: 'Objective',
+    objective: 'Avoid red obstacles and survive as long as possible. Use echoes wisely!',
+    modesTitle: 'Game Modes',
+    modes: 'Limited: Fixed number of echoes | Infinite: Unlimited echoes with cooldowns | Levels: Hand-built courses with a finish line and a set number of pings | Two-Player Race: one course, two runners, each seeing only what their own echoes reveal. Last one standing wins',
+    audioOnlyTitle: 'Audio Only',
+    audioOnly: 'Turn on Audio Only in settings to play by ear with headphones. Nothing is drawn but you: each echo comes back from where it struck, higher for things above you and lower for things below, later the further away they are. Solid obstacles ring bright, phantoms sound soft and power-ups chirp upwards. Listening Practice on the menu is a slow course to learn the sounds, and audio-only runs keep their own leaderboard',
+    startPlaying: 'Start Playing!'
+  },
+
+  settings: {
+    title: 'Settings',
+    close: 'Close settings',
+    gameMode: 'Game Mode',
+    difficulty: 'Difficulty',
+    soundEffects: 'Sound Effects',
+    masterVolume: 'Master Volume',
+    partialReveal: 'Silhouette Reveal',
+    partialRevealHint: 'Echoes light only the sides they hit',
+    ghost: 'Ghost Runner',
+    ghostHint: 'Race the path of your best run on the same difficulty and mode',
+    language: 'Language',
+    languageAuto: 'Browser default',
+    accessibility: 'Accessibility',
+    colorPalette: 'Color palette',
+    highContrast: 'High Contrast',
+    highContrastHint: 'Brighter text, outlined obstacles and no glow',
+    reducedMotion: 'Reduced Motion',
+    reducedMotionHint: 'No crash flash, pulsing or zooming',
+    audioOnly: 'Audio Only',
+    audioOnlyHint: 'Obstacles stay hidden; echoes come back from where they are',
+    controls: 'Controls',
+    preview: 'Current Settings Preview:',
+    reset: 'Reset',
+    saveChanges: 'Save Changes',
+    saved: 'Saved'
+  },
+
+  exitConfirm: {
+    title: 'Exit to Menu?',
+    levelAttempt: (level: string) => `This attempt at ${level} won't count`,
+    currentScore: (score: string) => `Current Score: ${score}`,
+    progressSaved: 'Your progress will be saved to high scores'
+  },
+
+  pause: {
+    title: 'Paused',
+    pressToResume: (key: string) => `Press ${key} to resume`
+  },
+
+  gameOver: {
+    label: 'Game over',
+    title: 'Game Over!',
+    finalScore: (score: string) => `Final Score: ${score}`,
+    difficulty: 'Difficulty',
+    mode: 'Mode',
+    dailyChallenge: (day: string) => `Daily Challenge ${day}`,
+    newRecord: 'NEW RECORD! 🎉'
+  },
+
+  levelResults: {
+    label: 'Level results',
+    complete: 'Level Complete!',
+    newBestTime: 'NEW BEST TIME! 🎉',
+    crashed: 'Crashed!',
+    progress: (percent: string) => `Made it ${percent} of the way`,
+    editor: 'Editor',
+    levels: 'Levels',
+    next: 'Next'
+  },
+
+  hud: {
+    time: 'Time',
+    progress: 'Progress',
+    daily: 'Daily',
+    comparedWithGhost: 'Compared with your ghost',
+    ahead: (points: string) => `Ahead by ${points}`,
+    levelWithGhost: 'Level with your ghost',
+    infiniteMode: 'Infinite Mode',
+    pickup: (label: string) => `${label}!`,
+    extraPing: '+1 Ping'
+  },
+
+  highScores: {
+    label: 'High scores',
+    title: 'High Scores',
+    close: 'Close high scores',
+    boards: 'Leaderboard',
+    visual: 'Visual',
+    audioOnly: 'Audio Only',
+    empty: 'No high scores yet!',
+    emptyHint: 'Play a game to set your first record.',
+    emptyAudioOnlyHint: 'Turn on Audio Only in settings and play by ear to set one.',
+    daily: (day: string) => `Daily ${day}`,
+    watchReplay: 'Watch replay',
+    playCourse: 'Play this course'
+  },
+
+  replay: {
+    verified: (score: string) => `Verified: replay reproduces ${score}`,
+    mismatch: (score: string) => `Mismatch: replay scores ${score}`,
+    play: 'Play replay',
+    pause: 'Pause replay',
+    seek: 'Replay position',
+    close: 'Close replay'
+  },
+
+  footer: {
+    about: 'Navigate through the darkness using sound. Each echo reveals what lies ahead.',
+    saving: (quit: string) => `Settings are automatically saved. Press ${quit} from anywhere to return to menu.`,
+    keys: (ping: string, up: string, down: string, pause: string) =>
+      `Use ${ping} to ping, ${up} / ${down} to move, ${pause} to pause.`
+  },
+
+  // Read out by screen readers
+  announcements: {
+    pingsLeft: (count: number, formatted: string) => `${formatted} ${count === 1 ? 'ping' : 'pings'} left`,
+    score: (score: string) => `Score ${score}`,
+    pickedUp: (label: string) => `Picked up ${label}`,
+    levelComplete: (time: string) => `Level complete in ${time}`,
+    gameOver: (score: string) => `Game over. Final score ${score}`
+  },
+
+  breakdown: {
+    title: 'Run Breakdown',
+    distance: 'Distance',
+    time: 'Time',
+    pingsUsed: 'Pings used',
+    pingsOfKind: (count: string, kind: string) => `${count} ${kind.toLowerCase()}`,
+    efficiency: 'Echo efficiency',
+    perPing: (value: string) => `${value} per ping`,
+    passedSeen: 'Passed seen',
+    seenOf: (seen: string, total: string) => `${seen} of ${total}`,
+    passedUnseen: 'Passed unseen',
+    nearMisses: 'Near misses',
+    peakSpeed: 'Peak speed',
+    causeOfDeath: 'Cause of death',
+    speedOverTime: 'Speed over time',
+    efficiencyTrend: (runs: number) => `Echo efficiency, last ${runs} runs`,
+    average: (value: string) => `Average ${value} per ping`,
+    comparedWithAverage: (above: boolean) => `this run ${above ? 'above' : 'below'} average`
+  },
+
+  achievementsScreen: {
+    title: 'Achievements',
+    close: 'Close achievements',
+    unlocked: (count: number, total: number) => `${count} of ${total} unlocked`,
+    toast: 'Achievement unlocked'
+  },
+
+  levelSelect: {
+    title: 'Levels',
+    close: 'Close levels',
+    completed: (count: number, total: number) => `${count} of ${total} completed`,
+    pings: (count: number) => `${count} ${count === 1 ? 'ping' : 'pings'}`,
+    best: (time: string) => `Best ${time}`,
+    play: (level: string) => `Play ${level}`
+  },
+
+  controls: {
+    removeBinding: 'Remove binding',
+    removeKey: (key: string, action: string) => `Remove ${key} from ${action}`,
+    pressKey: 'Press a key… (click to cancel)',
+    add: 'Add',
+    conflict: (key: string, action: string) => `${key} is already bound to ${action}.`,
+    onlyKey: 'It is the only key for that action, so give it another key first.',
+    moveTo: (action: string) => `Move to ${action}`
+  },
+
+  customDifficulty: {
+    nameRequired: 'Give the preset a name first',
+    saved: (name: string) => `Saved "${name}"`,
+    exported: (name: string) => `"${name}" exported below and copied to the clipboard`,
+    importFailed: (error: string) => `Import failed: ${error}`,
+    imported: (name: string) => `Imported "${name}"`,
+    // For a bare settings object imported without a name
+    importedName: 'Imported',
+    presetName: 'Preset name',
+    loadPreset: 'Load preset',
+    exportPreset: 'Export preset',
+    deletePreset: 'Delete preset',
+    importPlaceholder: 'Paste a preset JSON string to import'
+  },
+
+  levelEditor: {
+    title: 'Level Editor',
+    playtest: 'Playtest',
+    fromHere: 'From Here',
+    fromHereHint: 'Start with the course where the view is now',
+    close: 'Close editor',
+    place: 'Place:',
+    delete: 'Delete',
+    help: 'Click empty space to place, drag to move, drag the corner handle to resize, Delete to remove. Scroll with the wheel or the slider.',
+    level: 'Level',
+    name: 'Name',
+    id: 'Id',
+    description: 'Description',
+    echoCount: 'Echo count',
+    finishLine: 'Finish line',
+    speed: 'Speed',
+    addSpeedPoint: 'Add a speed point at the current view',
+    removeSpeedPoint: 'Remove speed point',
+    pointDistance: 'At (px)',
+    pointSpeed: 'Speed (px/frame)',
+    selected: 'Selected obstacle',
+    kind: 'Kind',
+    width: 'Width',
+    height: 'Height',
+    swing: 'Swing (px)',
+    period: 'Period (ms)',
+    phase: 'Phase (rad)',
+    nothingSelected: (count: number) => `Nothing selected. ${count} ${count === 1 ? 'obstacle' : 'obstacles'} in this level.`,
+    importPlaceholder: 'Paste level JSON to import',
+    exported: 'Level exported below and copied to the clipboard',
+    invalidJson: 'Import failed: not valid JSON',
+    cantPlaytest: (error: string) => `Can't playtest: ${error}`,
+    importFailed: (error: string) => `Import failed: ${error}`,
+    imported: (name: string) => `Imported "${name}"`
+  },
+
+  race: {
+    player: (number: number) => `Player ${number}`,
+    pausedLabel: 'Race paused',
+    paused: 'Race Paused',
+    resultsLabel: 'Race results',
+    draw: 'Draw!',
+    wins: (player: string) => `${player} Wins!`,
+    rematch: 'Rematch',
+    keys: (up: string, down: string, ping: string) => `${up}/${down} move, ${ping} ping`,
+    orGamepad: (number: number) => `or gamepad ${number}`
+  }
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,412 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+  app: {
+    title: 'Echo Runner',
+    tagline: 'Recorre un mundo a oscuras guiándote por el eco',
+    fullscreen: 'Pantalla completa',
+    exitFullscreen: 'Salir de pantalla completa'
+  },
+
+  difficulties: {
+    easy: 'Fácil',
+    medium: 'Media',
+    hard: 'Difícil',
+    nightmare: 'Pesadilla',
+    custom: 'Personalizada'
+  },
+
+  modes: {
+    limited: 'Ecos limitados',
+    infinite: 'Ecos infinitos',
+    levels: 'Niveles'
+  },
+
+  echoes: {
+    ping: 'Ping',
+    cone: 'Cono',
+    pulse: 'Pulso'
+  },
+
+  powerUps: {
+    extraPing: 'Ping extra',
+    wideSonar: 'Sónar amplio',
+    slowTime: 'Cámara lenta',
+    shield: 'Escudo',
+    lingeringReveal: 'Revelado duradero'
+  },
+
+  obstacles: {
+    block: 'Bloque',
+    moving: 'Bloque móvil',
+    pillar: 'Pilar',
+    wall: 'Muro',
+    phantom: 'Fantasma'
+  },
+
+  actions: {
+    up: 'Subir',
+    down: 'Bajar',
+    ping: 'Ping',
+    cone: 'Ping en cono',
+    pulse: 'Pulso largo',
+    pause: 'Pausa',
+    quit: 'Volver al menú'
+  },
+
+  palettes: {
+    standard: { label: 'Estándar', description: 'Obstáculos rojos, jugador azul' },
+    redGreen: { label: 'Apta rojo-verde', description: 'Para protanopía y deuteranopía' },
+    blueYellow: { label: 'Apta azul-amarillo', description: 'Para tritanopía' }
+  },
+
+  difficultyFields: {
+    echoCount: 'Número de ecos',
+    echoInterval: 'Intervalo de eco',
+    echoMaxRadius: 'Radio del eco',
+    echoSpeed: 'Velocidad del eco',
+    echoRevealDuration: 'Duración del revelado',
+    waveOpacityDecay: 'Desvanecimiento de onda',
+    obstacleSpawnRate: 'Densidad de obstáculos',
+    gameSpeedMultiplier: 'Velocidad de juego'
+  },
+
+  achievements: {
+    firstSteps: { name: 'Primeros pasos', description: 'Sobrevive 30 segundos en una sola partida' },
+    nightmareSurvivor: { name: 'Superviviente de pesadilla', description: 'Sobrevive 60 segundos en Pesadilla' },
+    silentRunning: { name: 'En silencio', description: 'Sobrevive 30 segundos en modo limitado sin un solo ping' },
+    blindFaith: { name: 'Fe ciega', description: 'Supera 50 obstáculos que nunca se revelaron' },
+    speedDemon: { name: 'Demonio de la velocidad', description: 'Alcanza una velocidad de 5x' },
+    closeShave: { name: 'Por los pelos', description: 'Consigue 10 roces en una sola partida' },
+    marathon: { name: 'Maratón', description: 'Recorre 100.000 en total' },
+    finishLine: { name: 'Línea de meta', description: 'Completa un nivel' }
+  },
+
+  levels: {
+    'first-light': { name: 'Primera luz', description: 'Una serie suave de bloques sueltos. Lanza el ping pronto y luego esquiva.' },
+    columns: { name: 'Columnas', description: 'Pilares desde el suelo y el techo, y después un muro con un solo hueco.' },
+    drift: { name: 'Deriva', description: 'Bloques que suben y bajan, y ecos que engañan.' },
+    blackout: { name: 'Apagón', description: 'Cuatro pings, revelados cortos y un final rápido. Recuerda lo que oyes.' },
+    'audio-practice': {
+      name: 'Práctica de escucha',
+      description:
+        'Un recorrido lento para aprender los ecos de oído: los sonidos agudos están por encima de ti, los graves por debajo, y un tono suave y hueco es un fantasma que puedes atravesar.'
+    }
+  },
+
+  units: {
+    seconds: value => `${value} s`,
+    multiplier: value => `${value}x`
+  },
+
+  errors: {
+    invalidJson: 'El JSON no es válido',
+    settingsNotObject: 'Los ajustes deben ser un objeto',
+    fieldNotNumber: (label, field) => `${label} (${field}) debe ser un número`,
+    fieldOutOfRange: (label, field, min, max) => `${label} (${field}) debe estar entre ${min} y ${max}`,
+    levelNotObject: 'Se esperaba un objeto de nivel',
+    unsupportedVersion: version => `Versión de nivel no admitida: ${version}`,
+    invalidId: 'id debe ser un texto no vacío',
+    invalidName: 'name debe ser un texto no vacío',
+    invalidDescription: 'description debe ser un texto',
+    invalidEchoBudget: 'echoBudget debe ser un número entero de pings',
+    invalidFinishX: 'finishX debe ser un número positivo',
+    unknownSettings: keys => `settings no puede fijar ${keys}`,
+    emptySpeedCurve: 'speedCurve necesita al menos un punto',
+    invalidSpeedPoint: 'Cada punto de speedCurve necesita una distancia y una velocidad positiva',
+    obstaclesNotList: 'obstacles debe ser una lista',
+    obstacleNotObject: obstacle => `El obstáculo ${obstacle} debe ser un objeto`,
+    unknownObstacleKind: (obstacle, kind) => `El obstáculo ${obstacle} tiene un tipo desconocido «${kind}»`,
+    invalidObstacleX: obstacle => `El obstáculo ${obstacle} necesita una x no negativa`,
+    invalidObstacleY: (obstacle, max) => `El obstáculo ${obstacle} necesita una y entre 0 y ${max}`,
+    invalidObstacleField: (obstacle, field) => `El obstáculo ${obstacle} tiene un ${field} no válido`
+  },
+
+  common: {
+    menu: 'Menú',
+    backToMenu: 'Volver al menú',
+    exitToMenu: 'Salir al menú',
+    cancel: 'Cancelar',
+    resume: 'Continuar',
+    tryAgain: 'Reintentar',
+    save: 'Guardar',
+    import: 'Importar',
+    export: 'Exportar',
+    score: 'Puntuación',
+    speed: 'Velocidad',
+    best: 'Récord',
+    pings: 'Pings',
+    seed: seed => `Semilla ${seed}`,
+    withKey: (label, key) => `${label} (${key})`
+  },
+
+  menu: {
+    label: 'Menú principal',
+    subtitle: 'Atraviesa la oscuridad con ecos de sonido',
+    mode: 'Modo',
+    difficulty: 'Dificultad',
+    audioOnly: 'Solo audio',
+    bestScore: 'Mejor puntuación',
+    totalScores: 'Puntuaciones',
+    startGame: 'Jugar',
+    dailyChallenge: 'Reto diario',
+    race: 'Carrera a dos',
+    practice: 'Práctica de escucha',
+    levels: 'Niveles',
+    levelEditor: 'Editor de niveles',
+    settings: 'Ajustes',
+    scores: 'Récords',
+    awards: 'Logros',
+    tutorial: 'Tutorial',
+    quickControls: 'Controles rápidos:',
+    movementKeys: (up, down) => `Movimiento: ${up} / ${down}`,
+    echoKeys: (ping, cone, pulse) => `Eco: ${ping} / ${cone} / ${pulse}`,
+    pauseKey: pause => `Pausa: ${pause}`
+  },
+
+  soundRequired: {
+    message: 'El modo Solo audio necesita sonido. Activa el sonido y sube el volumen en Ajustes para empezar.',
+    openSettings: 'Abrir ajustes',
+    dismiss: 'Cerrar aviso'
+  },
+
+  tutorial: {
+    label: 'Cómo se juega',
+    title: 'Cómo se juega',
+    movementTitle: 'Movimiento',
+    movement: (up, down) => `Usa ${up} y ${down} para subir y bajar`,
+    touchTitle: 'Táctil y mando',
+    touch: 'Táctil: mantén pulsada la franja izquierda para dirigir y toca en cualquier otro sitio para lanzar un ping. Mando: stick o cruceta para moverte, A para el ping, Start para pausar',
+    echoTitle: 'Sistema de ecos',
+    echo: (ping, cone, pulse) =>
+      `Pulsa ${ping} para emitir ondas de sonido que revelan los obstáculos durante un momento. ${cone} lanza un cono estrecho que llega más lejos, y ${pulse} un pulso lento de gran alcance y recarga larga. Cada uno gasta un ping y se recarga por separado`,
+    powerUpsTitle: 'Potenciadores',
+    powerUps: 'Los diamantes ocultos en la oscuridad solo aparecen cuando un eco los encuentra. Atraviesa uno para conseguir un ping extra, un sónar más amplio, cámara lenta, un escudo de un golpe o revelados más duraderos',
+    objectiveTitle: 'Objetivo',
+    objective: 'Esquiva los obstáculos rojos y sobrevive todo lo que puedas. ¡Usa bien los ecos!',
+    modesTitle: 'Modos de juego',
+    modes: 'Limitado: número fijo de ecos | Infinito: ecos ilimitados con recarga | Niveles: recorridos hechos a mano con línea de meta y un número fijo de pings | Carrera a dos: un recorrido, dos corredores, y cada uno ve solo lo que revelan sus propios ecos. Gana el último en pie',
+    audioOnlyTitle: 'Solo audio',
+    audioOnly: 'Activa Solo audio en los ajustes para jugar de oído con auriculares. Solo te verás a ti: cada eco vuelve desde donde chocó, más agudo si está por encima de ti y más grave si está por debajo, y más tarde cuanto más lejos esté. Los obstáculos sólidos suenan brillantes, los fantasmas, suaves, y los potenciadores, con un trino ascendente. La Práctica de escucha del menú es un recorrido lento para aprender los sonidos, y las partidas solo audio tienen su propia clasificación',
+    startPlaying: '¡A jugar!'
+  },
+
+  settings: {
+    title: 'Ajustes',
+    close: 'Cerrar ajustes',
+    gameMode: 'Modo de juego',
+    difficulty: 'Dificultad',
+    soundEffects: 'Efectos de sonido',
+    masterVolume: 'Volumen general',
+    partialReveal: 'Revelado de silueta',
+    partialRevealHint: 'Los ecos solo iluminan los lados que tocan',
+    ghost: 'Corredor fantasma',
+    ghostHint: 'Compite contra tu mejor partida en la misma dificultad y modo',
+    language: 'Idioma',
+    languageAuto: 'Según el navegador',
+    accessibility: 'Accesibilidad',
+    colorPalette: 'Paleta de colores',
+    highContrast: 'Alto contraste',
+    highContrastHint: 'Texto más claro, obstáculos con contorno y sin brillo',
+    reducedMotion: 'Movimiento reducido',
+    reducedMotionHint: 'Sin destello al chocar, pulsos ni zoom',
+    audioOnly: 'Solo audio',
+    audioOnlyHint: 'Los obstáculos no se ven; los ecos vuelven desde donde están',
+    controls: 'Controles',
+    preview: 'Vista previa de los ajustes:',
+    reset: 'Restablecer',
+    saveChanges: 'Guardar cambios',
+    saved: 'Guardado'
+  },
+
+  exitConfirm: {
+    title: '¿Salir al menú?',
+    levelAttempt: level => `Este intento en ${level} no contará`,
+    currentScore: score => `Puntuación actual: ${score}`,
+    progressSaved: 'Tu progreso se guardará en los récords'
+  },
+
+  pause: {
+    title: 'En pausa',
+    pressToResume: key => `Pulsa ${key} para continuar`
+  },
+
+  gameOver: {
+    label: 'Fin de la partida',
+    title: '¡Fin de la partida!',
+    finalScore: score => `Puntuación final: ${score}`,
+    difficulty: 'Dificultad',
+    mode: 'Modo',
+    dailyChallenge: day => `Reto diario ${day}`,
+    newRecord: '¡NUEVO RÉCORD! 🎉'
+  },
+
+  levelResults: {
+    label: 'Resultados del nivel',
+    complete: '¡Nivel completado!',
+    newBestTime: '¡NUEVO MEJOR TIEMPO! 🎉',
+    crashed: '¡Choque!',
+    progress: percent => `Has llegado al ${percent} del recorrido`,
+    editor: 'Editor',
+    levels: 'Niveles',
+    next: 'Siguiente'
+  },
+
+  hud: {
+    time: 'Tiempo',
+    progress: 'Progreso',
+    daily: 'Diario',
+    comparedWithGhost: 'Comparado con tu fantasma',
+    ahead: points => `${points} por delante`,
+    levelWithGhost: 'A la par de tu fantasma',
+    infiniteMode: 'Modo infinito',
+    pickup: label => `¡${label}!`,
+    extraPing: '+1 ping'
+  },
+
+  highScores: {
+    label: 'Récords',
+    title: 'Récords',
+    close: 'Cerrar récords',
+    boards: 'Clasificación',
+    visual: 'Visual',
+    audioOnly: 'Solo audio',
+    empty: '¡Todavía no hay récords!',
+    emptyHint: 'Juega una partida para marcar tu primer récord.',
+    emptyAudioOnlyHint: 'Activa Solo audio en los ajustes y juega de oído para marcar uno.',
+    daily: day => `Diario ${day}`,
+    watchReplay: 'Ver repetición',
+    playCourse: 'Jugar este recorrido'
+  },
+
+  replay: {
+    verified: score => `Verificada: la repetición reproduce ${score}`,
+    mismatch: score => `No coincide: la repetición da ${score}`,
+    play: 'Reproducir repetición',
+    pause: 'Pausar repetición',
+    seek: 'Posición de la repetición',
+    close: 'Cerrar repetición'
+  },
+
+  footer: {
+    about: 'Atraviesa la oscuridad con el sonido. Cada eco revela lo que tienes delante.',
+    saving: quit => `Los ajustes se guardan automáticamente. Pulsa ${quit} desde cualquier sitio para volver al menú.`,
+    keys: (ping, up, down, pause) => `Usa ${ping} para el ping, ${up} / ${down} para moverte y ${pause} para pausar.`
+  },
+
+  announcements: {
+    pingsLeft: (count, formatted) => (count === 1 ? `Queda ${formatted} ping` : `Quedan ${formatted} pings`),
+    score: score => `Puntuación ${score}`,
+    pickedUp: label => `Has recogido ${label}`,
+    levelComplete: time => `Nivel completado en ${time}`,
+    gameOver: score => `Fin de la partida. Puntuación final ${score}`
+  },
+
+  breakdown: {
+    title: 'Resumen de la partida',
+    distance: 'Distancia',
+    time: 'Tiempo',
+    pingsUsed: 'Pings usados',
+    pingsOfKind: (count, kind) => `${count} ${kind.toLowerCase()}`,
+    efficiency: 'Eficiencia de eco',
+    perPing: value => `${value} por ping`,
+    passedSeen: 'Superados vistos',
+    seenOf: (seen, total) => `${seen} de ${total}`,
+    passedUnseen: 'Superados sin ver',
+    nearMisses: 'Roces',
+    peakSpeed: 'Velocidad máxima',
+    causeOfDeath: 'Causa del choque',
+    speedOverTime: 'Velocidad a lo largo del tiempo',
+    efficiencyTrend: runs => `Eficiencia de eco, últimas ${runs} partidas`,
+    average: value => `Media de ${value} por ping`,
+    comparedWithAverage: above => `esta partida, ${above ? 'por encima' : 'por debajo'} de la media`
+  },
+
+  achievementsScreen: {
+    title: 'Logros',
+    close: 'Cerrar logros',
+    unlocked: (count, total) => `${count} de ${total} desbloqueados`,
+    toast: 'Logro desbloqueado'
+  },
+
+  levelSelect: {
+    title: 'Niveles',
+    close: 'Cerrar niveles',
+    completed: (count, total) => `${count} de ${total} completados`,
+    pings: count => `${count} ${count === 1 ? 'ping' : 'pings'}`,
+    best: time => `Récord ${time}`,
+    play: level => `Jugar ${level}`
+  },
+
+  controls: {
+    removeBinding: 'Quitar tecla',
+    removeKey: (key, action) => `Quitar ${key} de ${action}`,
+    pressKey: 'Pulsa una tecla… (clic para cancelar)',
+    add: 'Añadir',
+    conflict: (key, action) => `${key} ya está asignada a ${action}.`,
+    onlyKey: 'Es la única tecla de esa acción, así que asígnale otra primero.',
+    moveTo: action => `Mover a ${action}`
+  },
+
+  customDifficulty: {
+    nameRequired: 'Ponle primero un nombre al preajuste',
+    saved: name => `«${name}» guardado`,
+    exported: name => `«${name}» exportado abajo y copiado al portapapeles`,
+    importFailed: error => `Error al importar: ${error}`,
+    imported: name => `«${name}» importado`,
+    importedName: 'Importado',
+    presetName: 'Nombre del preajuste',
+    loadPreset: 'Cargar preajuste',
+    exportPreset: 'Exportar preajuste',
+    deletePreset: 'Borrar preajuste',
+    importPlaceholder: 'Pega el JSON de un preajuste para importarlo'
+  },
+
+  levelEditor: {
+    title: 'Editor de niveles',
+    playtest: 'Probar',
+    fromHere: 'Desde aquí',
+    fromHereHint: 'Empieza el recorrido donde está ahora la vista',
+    close: 'Cerrar editor',
+    place: 'Colocar:',
+    delete: 'Borrar',
+    help: 'Haz clic en un espacio vacío para colocar, arrastra para mover, arrastra la esquina para cambiar el tamaño y pulsa Supr para borrar. Desplázate con la rueda o el control deslizante.',
+    level: 'Nivel',
+    name: 'Nombre',
+    id: 'Id',
+    description: 'Descripción',
+    echoCount: 'Número de ecos',
+    finishLine: 'Línea de meta',
+    speed: 'Velocidad',
+    addSpeedPoint: 'Añadir un punto de velocidad en la vista actual',
+    removeSpeedPoint: 'Quitar punto de velocidad',
+    pointDistance: 'En (px)',
+    pointSpeed: 'Velocidad (px/fotograma)',
+    selected: 'Obstáculo seleccionado',
+    kind: 'Tipo',
+    width: 'Ancho',
+    height: 'Alto',
+    swing: 'Oscilación (px)',
+    period: 'Periodo (ms)',
+    phase: 'Fase (rad)',
+    nothingSelected: count => `Nada seleccionado. ${count} ${count === 1 ? 'obstáculo' : 'obstáculos'} en este nivel.`,
+    importPlaceholder: 'Pega el JSON de un nivel para importarlo',
+    exported: 'Nivel exportado abajo y copiado al portapapeles',
+    invalidJson: 'Error al importar: el JSON no es válido',
+    cantPlaytest: error => `No se puede probar: ${error}`,
+    importFailed: error => `Error al importar: ${error}`,
+    imported: name => `«${name}» importado`
+  },
+
+  race: {
+    player: number => `Jugador ${number}`,
+    pausedLabel: 'Carrera en pausa',
+    paused: 'Carrera en pausa',
+    resultsLabel: 'Resultados de la carrera',
+    draw: '¡Empate!',
+    wins: player => `¡Gana ${player}!`,
+    rematch: 'Revancha',
+    keys: (up, down, ping) => `${up}/${down} moverse, ${ping} ping`,
+    orGamepad: number => `o mando ${number}`
+  }
+};
@@ -0,0 +1,111 @@
+import { createContext, useContext } from 'react';
+import type { Level, LevelError } from '../game/levels';
+import { en } from './en';
+import type { Messages } from './en';
+import { es } from './es';
+
+export type { Messages } from './en';
+
+export type Locale = 'en' | 'es';
+
+export const LOCALES: Locale[] = ['en', 'es'];
+
+// Each language in its own words, for the picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español'
+};
+
+const CATALOGS: Record<Locale, Messages> = { en, es };
+
+// The first of the browser's preferred languages we have a catalog for
+export function detectLocale(): Locale {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const language = tag.split('-')[0].toLowerCase() as Locale;
+    if (LOCALES.includes(language)) return language;
+  }
+  return 'en';
+}
+
+// Messages plus number and date formatting for one language
+export interface I18n {
+  locale: Locale;
+  t: Messages;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDecimal: (value: number, digits?: number) => string;
+  // Speeds and other multipliers, e.g. "2.5x"
+  formatMultiplier: (value: number) => string;
+  formatPercent: (fraction: number) => string;
+  // A level time in seconds to the hundredth
+  formatLevelTime: (ms: number) => string;
+  // Calendar date of an ISO 8601 timestamp
+  formatDate: (iso: string) => string;
+  // Problems from parsing a level or difficulty settings, as one line
+  formatErrors: (errors: readonly LevelError[]) => string;
+  // Translated for bundled levels, as written for imported ones
+  levelName: (level: Level) => string;
+  levelDescription: (level: Level) => string | undefined;
+}
+
+function formatError(error: LevelError, t: Messages, formatNumber: (value: number) => string): string {
+  const obstacle = 'index' in error ? formatNumber(error.index + 1) : '';
+  switch (error.code) {
+    case 'fieldNotNumber':
+      return t.errors.fieldNotNumber(t.difficultyFields[error.field], error.field);
+    case 'fieldOutOfRange':
+      return t.errors.fieldOutOfRange(
+        t.difficultyFields[error.field],
+        error.field,
+        formatNumber(error.min),
+        formatNumber(error.max)
+      );
+    case 'unsupportedVersion':
+      return t.errors.unsupportedVersion(error.version);
+    case 'unknownSettings':
+      return t.errors.unknownSettings(error.keys.join(', '));
+    case 'obstacleNotObject':
+      return t.errors.obstacleNotObject(obstacle);
+    case 'unknownObstacleKind':
+      return t.errors.unknownObstacleKind(obstacle, error.kind);
+    case 'invalidObstacleX':
+      return t.errors.invalidObstacleX(obstacle);
+    case 'invalidObstacleY':
+      return t.errors.invalidObstacleY(obstacle, formatNumber(error.max));
+    case 'invalidObstacleField':
+      return t.errors.invalidObstacleField(obstacle, error.field);
+    default:
+      return t.errors[error.code];
+  }
+}
+
+export function createI18n(locale: Locale): I18n {
+  const t = CATALOGS[locale];
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    new Intl.NumberFormat(locale, options).format(value);
+  const formatDecimal = (value: number, digits = 1) =>
+    formatNumber(value, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  const dateFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'medium' });
+  const bundledLevels: Partial<Record<string, { name: string; description: string }>> = t.levels;
+
+  return {
+    locale,
+    t,
+    formatNumber,
+    formatDecimal,
+    formatMultiplier: value => t.units.multiplier(formatDecimal(value)),
+    formatPercent: fraction => formatNumber(fraction, { style: 'percent', maximumFractionDigits: 0 }),
+    formatLevelTime: ms => t.units.seconds(formatDecimal(ms / 1000, 2)),
+    formatDate: iso => {
+      const date = new Date(iso);
+      return Number.isNaN(date.getTime()) ? '–' : dateFormat.format(date);
+    },
+    formatErrors: errors => errors.map(error => formatError(error, t, formatNumber)).join('; '),
+    levelName: level => bundledLevels[level.id]?.name ?? level.name,
+    levelDescription: level => bundledLevels[level.id]?.description ?? level.description
+  };
+}
+
+export const I18nContext = createContext<I18n>(createI18n('en'));
+
+export const useI18n = () => useContext(I18nContext);
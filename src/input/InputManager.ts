@@ -0,0 +1,250 @@
+// Merges keyboard, touch and gamepad into the same two things the game needs:
+// a vertical movement amount sampled every simulation step, and discrete
+// actions (the sonar abilities, pause, quit) delivered to listeners as they happen.
+
+import { MOVE_LEVELS } from '../game/constants';
+
+export type InputAction = 'ping' | 'cone' | 'pulse' | 'pause' | 'quit';
+export type BindableAction = 'up' | 'down' | InputAction;
+// KeyboardEvent.code values, so bindings follow physical keys and ignore
+// Caps Lock, Shift and the active layout
+export type KeyBindings = Record<BindableAction, string[]>;
+
+export const BINDABLE_ACTIONS: BindableAction[] = ['up', 'down', 'ping', 'cone', 'pulse', 'pause', 'quit'];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  up: ['ArrowUp', 'KeyW'],
+  down: ['ArrowDown', 'KeyS'],
+  ping: ['Space'],
+  cone: ['KeyE', 'ArrowRight'],
+  pulse: ['KeyR'],
+  pause: ['Escape'],
+  quit: ['KeyQ']
+};
+
+// Which other action already uses this key, if any
+export function findBindingConflict(
+  bindings: KeyBindings,
+  code: string,
+  action: BindableAction
+): BindableAction | null {
+  return BINDABLE_ACTIONS.find(other => other !== action && bindings[other].includes(code)) ?? null;
+}
+
+// Split-screen races share one keyboard, so each racer gets fixed keys of
+// their own, plus the connected gamepad in the same position (browsers can
+// leave gaps in Gamepad.index, e.g. after a pad is unplugged)
+export interface RacerKeys {
+  up: string;
+  down: string;
+  ping: string;
+}
+
+export const RACER_KEYS: RacerKeys[] = [
+  { up: 'KeyW', down: 'KeyS', ping: 'ShiftLeft' },
+  { up: 'ArrowUp', down: 'ArrowDown', ping: 'Enter' }
+];
+
+const STICK_DEADZONE = 0.2;
+const GAMEPAD_BUTTON_ACTIONS: Record<number, InputAction> = {
+  0: 'ping', // A / Cross
+  2: 'cone', // X / Square
+  3: 'pulse', // Y / Triangle
+  8: 'quit', // Back / Select
+  9: 'pause' // Start / Options
+};
+const DPAD_UP = 12;
+const DPAD_DOWN = 13;
+const LEFT_STICK_Y = 1;
+
+// Keys that move between and press the controls of an open menu
+const MENU_KEYS = ['Tab', 'Enter', 'NumpadEnter', 'Space', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Keys typed into a form field belong to the field, not the game
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' ||
+    (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button'].includes(target.type)));
+
+export class InputManager {
+  private keys = new Set<string>();
+  private bindings: KeyBindings = DEFAULT_KEY_BINDINGS;
+  private touchMove = 0;
+  private gamepadMove = 0;
+  private padMoves: number[] = [];
+  private racing = false;
+  private menuOpen = false;
+  private racerPings = new Set<number>();
+  private gamepadButtons = new Map<string, boolean>();
+  private listeners = new Set<(action: InputAction) => void>();
+  private captureListener: ((code: string) => void) | null = null;
+
+  // Starts listening to the keyboard and polling gamepads. Returns a detach function.
+  attach(): () => void {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (this.captureListener) {
+        e.preventDefault();
+        const listener = this.captureListener;
+        this.captureListener = null;
+        listener(e.code);
+        return;
+      }
+      if (isTextEntry(e.target) || (this.menuOpen && MENU_KEYS.includes(e.code))) return;
+
+      this.keys.add(e.code);
+      if (this.racing) {
+        const racer = RACER_KEYS.findIndex(keys => [keys.up, keys.down, keys.ping].includes(e.code));
+        if (racer !== -1) {
+          e.preventDefault();
+          if (!e.repeat && RACER_KEYS[racer].ping === e.code) {
+            this.racerPings.add(racer);
+          }
+          return;
+        }
+      }
+      const action = this.findAction(e.code);
+      if (action) {
+        e.preventDefault();
+        if (!e.repeat) {
+          this.trigger(action);
+        }
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      this.keys.delete(e.code);
+    };
+    const handleBlur = () => {
+      this.keys.clear();
+      this.touchMove = 0;
+    };
+
+    let frameId = 0;
+    const pollGamepads = () => {
+      this.pollGamepads();
+      frameId = requestAnimationFrame(pollGamepads);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    frameId = requestAnimationFrame(pollGamepads);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      cancelAnimationFrame(frameId);
+    };
+  }
+
+  setBindings(bindings: KeyBindings) {
+    this.bindings = bindings;
+    this.keys.clear();
+  }
+
+  // Hands the next key press to the listener instead of treating it as input,
+  // for rebinding. Returns a function that cancels the capture.
+  captureNextKey(listener: (code: string) => void): () => void {
+    this.captureListener = listener;
+    return () => {
+      if (this.captureListener === listener) {
+        this.captureListener = null;
+      }
+    };
+  }
+
+  onAction(listener: (action: InputAction) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  trigger(action: InputAction) {
+    for (const listener of this.listeners) {
+      listener(action);
+    }
+  }
+
+  // While a menu is open the keyboard drives it, so the keys for moving
+  // focus and pressing buttons are left to the page
+  setMenuOpen(open: boolean) {
+    this.menuOpen = open;
+  }
+
+  // While racing, RACER_KEYS and each gamepad's ping button belong to one
+  // racer each instead of the usual bindings
+  setRacing(racing: boolean) {
+    this.racing = racing;
+    this.racerPings.clear();
+  }
+
+  // -1 (full speed up) to 1 (full speed down), from the touch controls
+  setTouchMove(value: number) {
+    this.touchMove = clamp(value, -1, 1);
+  }
+
+  // Combined movement from every source, -1 (up) to 1 (down)
+  getMovement(): number {
+    let move = this.touchMove + this.gamepadMove;
+    if (this.isHeld('up')) move -= 1;
+    if (this.isHeld('down')) move += 1;
+    return Math.round(clamp(move, -1, 1) * MOVE_LEVELS) / MOVE_LEVELS;
+  }
+
+  // One racer's movement, from their keys and their gamepad
+  getRacerMovement(racer: number): number {
+    const keys = RACER_KEYS[racer];
+    let move = this.padMoves[racer] ?? 0;
+    if (this.keys.has(keys.up)) move -= 1;
+    if (this.keys.has(keys.down)) move += 1;
+    return Math.round(clamp(move, -1, 1) * MOVE_LEVELS) / MOVE_LEVELS;
+  }
+
+  // Whether the racer pressed ping since the last call
+  takeRacerPing(racer: number): boolean {
+    return this.racerPings.delete(racer);
+  }
+
+  private isHeld(action: BindableAction): boolean {
+    return this.bindings[action].some(code => this.keys.has(code));
+  }
+
+  private findAction(code: string): InputAction | null {
+    const actions: InputAction[] = ['ping', 'cone', 'pulse', 'pause', 'quit'];
+    return actions.find(action => this.bindings[action].includes(code)) ?? null;
+  }
+
+  private pollGamepads() {
+    if (!navigator.getGamepads) return;
+
+    let move = 0;
+    const padMoves: number[] = [];
+    const pads = navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null);
+    pads.forEach((pad, slot) => {
+      let padMove = 0;
+      const axis = pad.axes[LEFT_STICK_Y] ?? 0;
+      if (Math.abs(axis) > STICK_DEADZONE) {
+        padMove += Math.sign(axis) * (Math.abs(axis) - STICK_DEADZONE) / (1 - STICK_DEADZONE);
+      }
+      if (pad.buttons[DPAD_UP]?.pressed) padMove -= 1;
+      if (pad.buttons[DPAD_DOWN]?.pressed) padMove += 1;
+      padMoves[slot] = clamp(padMove, -1, 1);
+      move += padMove;
+
+      for (const [button, action] of Object.entries(GAMEPAD_BUTTON_ACTIONS)) {
+        const key = `${pad.index}:${button}`;
+        const pressed = pad.buttons[Number(button)]?.pressed ?? false;
+        if (pressed && !this.gamepadButtons.get(key)) {
+          if (this.racing && action === 'ping') this.racerPings.add(slot);
+          else this.trigger(action);
+        }
+        this.gamepadButtons.set(key, pressed);
+      }
+    });
+    this.gamepadMove = clamp(move, -1, 1);
+    this.padMoves = padMoves;
+  }
+}
@@ -0,0 +1,54 @@
+import type { BindableAction, KeyBindings } from './InputManager';
+
+const SPECIAL_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'SPACE',
+  Escape: 'ESC',
+  Enter: 'ENTER',
+  ShiftLeft: 'L-SHIFT',
+  ShiftRight: 'R-SHIFT',
+  ControlLeft: 'L-CTRL',
+  ControlRight: 'R-CTRL',
+  AltLeft: 'L-ALT',
+  AltRight: 'R-ALT',
+  Backspace: 'BACKSPACE',
+  Tab: 'TAB'
+};
+
+// What the key prints on the user's own layout, where the browser can tell us
+// (so AZERTY players see "Z" for the physical key QWERTY calls W)
+let layoutMap: Map<string, string> | null = null;
+
+interface KeyboardWithLayoutMap {
+  getLayoutMap?: () => Promise<Map<string, string>>;
+}
+
+export async function loadKeyboardLayout(): Promise<void> {
+  const keyboard = (navigator as Navigator & { keyboard?: KeyboardWithLayoutMap }).keyboard;
+  if (!keyboard?.getLayoutMap) return;
+  try {
+    layoutMap = await keyboard.getLayoutMap();
+  } catch {
+    layoutMap = null;
+  }
+}
+
+export function getKeyLabel(code: string): string {
+  if (SPECIAL_LABELS[code]) return SPECIAL_LABELS[code];
+
+  const printed = layoutMap?.get(code);
+  if (printed) return printed.toUpperCase();
+
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `NUM ${code.slice(6)}`;
+  return code;
+}
+
+// Labels for an action's keys joined for hint text, e.g. "↑ / W"
+export function getBindingLabel(bindings: KeyBindings, action: BindableAction): string {
+  return bindings[action].map(getKeyLabel).join(' / ');
+}
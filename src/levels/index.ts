@@ -0,0 +1,23 @@
+import { parseLevel } from '../game/levels';
+import type { Level } from '../game/levels';
+import { createI18n } from '../i18n';
+import blackout from './blackout.json';
+import columns from './columns.json';
+import drift from './drift.json';
+import audioPractice from './audio-practice.json';
+import firstLight from './first-light.json';
+
+// Starter levels, in the order the level select lists them. They go through
+// the same checks as imported levels so a bad edit fails loudly.
+export const BUNDLED_LEVELS: Level[] = [firstLight, columns, drift, blackout].map(loadBundledLevel);
+
+// Audio-only mode's practice course, played from the menu rather than the level select
+export const PRACTICE_LEVEL: Level = loadBundledLevel(audioPractice);
+
+function loadBundledLevel(source: unknown): Level {
+  const result = parseLevel(source);
+  if ('errors' in result) {
+    throw new Error(`Bundled level is invalid: ${createI18n('en').formatErrors(result.errors)}`);
+  }
+  return result.level;
+}
@@ -0,0 +1,366 @@
+import { WORLD_HEIGHT, WORLD_WIDTH, PLAYER_SIZE, PLAYER_X } from '../game/constants';
+import { ECHO_TYPES } from '../game/echoes';
+import type { GameState } from '../game/engine';
+import { PICKUP_SIZE, POWER_UPS } from '../game/powerUps';
+import type { Echo, Face, Obstacle, Pickup, Position } from '../game/types';
+import { getPalette } from './palettes';
+import type { Palette } from './palettes';
+
+export interface RenderOptions {
+  collisionFlash: boolean;
+  // Light only the faces an echo hit instead of the whole obstacle
+  partialReveal: boolean;
+  // Where the personal best's ghost is, while there is one to race
+  ghostY: number | null;
+  palette: Palette;
+  // Holds flickering and pulsing effects still
+  reducedMotion: boolean;
+  // Obstacles and pickups stay undrawn; the player finds them by ear
+  audioOnly: boolean;
+}
+
+type ObstacleStyle = Pick<RenderOptions, 'partialReveal' | 'palette' | 'reducedMotion'>;
+
+// The editor always shows the course as designed
+const EDITOR_STYLE: ObstacleStyle = { partialReveal: false, palette: getPalette('standard'), reducedMotion: false };
+const SHIELD_COLOR = POWER_UPS.shield.color;
+const GHOST_OPACITY = 0.35;
+
+const HIDDEN_OBSTACLE_OPACITY = 0.1;
+// Revealed obstacles fade back to dark over this long, like the old CSS transition
+const REVEAL_FADE_MS = 300;
+
+function drawPlayer(ctx: CanvasRenderingContext2D, player: Position, palette: Palette) {
+  const radius = PLAYER_SIZE / 2;
+  ctx.save();
+  ctx.fillStyle = palette.player;
+  ctx.shadowColor = palette.playerGlow;
+  ctx.shadowBlur = palette.glow ? 20 : 0;
+  ctx.beginPath();
+  ctx.arc(player.x + radius, player.y + radius, radius, 0, Math.PI * 2);
+  ctx.fill();
+  if (palette.outline) {
+    ctx.strokeStyle = palette.outline;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+// The best run's player, as a faint outline the player can follow
+function drawGhost(ctx: CanvasRenderingContext2D, y: number, palette: Palette) {
+  const radius = PLAYER_SIZE / 2;
+  ctx.save();
+  ctx.globalAlpha = GHOST_OPACITY;
+  ctx.fillStyle = palette.player;
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(PLAYER_X + radius, y + radius, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Ring around the player while a shield is up
+function drawShield(ctx: CanvasRenderingContext2D, player: Position, time: number, reducedMotion: boolean) {
+  const radius = PLAYER_SIZE / 2;
+  ctx.save();
+  ctx.globalAlpha = reducedMotion ? 0.7 : 0.6 + 0.2 * Math.sin(time / 150);
+  ctx.strokeStyle = SHIELD_COLOR;
+  ctx.lineWidth = 2;
+  ctx.shadowColor = SHIELD_COLOR;
+  ctx.shadowBlur = 12;
+  ctx.beginPath();
+  ctx.arc(player.x + radius, player.y + radius, radius + 6, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Chevrons above and below a moving block hint which way it is swinging
+function drawMotionHint(ctx: CanvasRenderingContext2D, obstacle: Obstacle) {
+  if (!obstacle.motion) return;
+
+  const direction = Math.cos(obstacle.motion.phase) >= 0 ? 1 : -1;
+  const cx = obstacle.x + obstacle.width / 2;
+  const tipY = direction > 0 ? obstacle.y + obstacle.height + 10 : obstacle.y - 10;
+  ctx.beginPath();
+  ctx.moveTo(cx - 8, tipY - direction * 6);
+  ctx.lineTo(cx, tipY);
+  ctx.lineTo(cx + 8, tipY - direction * 6);
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = ctx.fillStyle;
+  ctx.stroke();
+}
+
+// Horizontal bands mark the tall and wall pieces as structure rather than debris
+function drawBands(ctx: CanvasRenderingContext2D, obstacle: Obstacle) {
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+  for (let y = obstacle.y + 12; y < obstacle.y + obstacle.height - 4; y += 24) {
+    ctx.fillRect(obstacle.x, y, obstacle.width, 4);
+  }
+}
+
+const FACE_EDGES: Record<Face, (obstacle: Obstacle) => [number, number, number, number]> = {
+  top: ({ x, y, width }) => [x, y, x + width, y],
+  right: ({ x, y, width, height }) => [x + width, y, x + width, y + height],
+  bottom: ({ x, y, width, height }) => [x, y + height, x + width, y + height],
+  left: ({ x, y, height }) => [x, y, x, y + height]
+};
+
+// Sonar silhouette: the obstacle stays dark apart from the faces echoes hit
+function drawRevealedFaces(ctx: CanvasRenderingContext2D, obstacle: Obstacle, fade: number, palette: Palette) {
+  const colors = palette.obstacles[obstacle.kind];
+  ctx.save();
+  ctx.globalAlpha = HIDDEN_OBSTACLE_OPACITY;
+  ctx.fillStyle = colors.fill;
+  ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+
+  ctx.globalAlpha = palette.revealedOpacity * fade + HIDDEN_OBSTACLE_OPACITY * (1 - fade);
+  ctx.strokeStyle = colors.fill;
+  ctx.shadowColor = colors.glow;
+  ctx.shadowBlur = palette.glow ? 12 : 0;
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+  if (obstacle.kind === 'phantom') {
+    ctx.setLineDash([6, 4]);
+  }
+  ctx.beginPath();
+  for (const face of obstacle.revealedFaces) {
+    const [x1, y1, x2, y2] = FACE_EDGES[face](obstacle);
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawObstacle(ctx: CanvasRenderingContext2D, obstacle: Obstacle, time: number, style: ObstacleStyle) {
+  const { palette } = style;
+  const lit = obstacle.revealed && obstacle.revealTimer > 0;
+  const fade = lit ? Math.min(1, obstacle.revealTimer / REVEAL_FADE_MS) : 0;
+  const colors = palette.obstacles[obstacle.kind];
+
+  if (style.partialReveal && lit && obstacle.revealedFaces.length < 4) {
+    drawRevealedFaces(ctx, obstacle, fade, palette);
+    return;
+  }
+
+  ctx.save();
+  ctx.globalAlpha = HIDDEN_OBSTACLE_OPACITY + (palette.revealedOpacity - HIDDEN_OBSTACLE_OPACITY) * fade;
+  ctx.fillStyle = colors.fill;
+  if (lit && palette.glow) {
+    ctx.shadowColor = colors.glow;
+    ctx.shadowBlur = 20;
+  }
+
+  if (obstacle.kind === 'phantom') {
+    // Flickering dashed outline: it shows up on echo but isn't solid
+    ctx.globalAlpha *= style.reducedMotion ? 0.8 : 0.6 + 0.4 * Math.sin(time / 80);
+    ctx.strokeStyle = colors.fill;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.strokeRect(obstacle.x + 1, obstacle.y + 1, obstacle.width - 2, obstacle.height - 2);
+    ctx.globalAlpha *= 0.3;
+    ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+  } else {
+    ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+    ctx.shadowBlur = 0;
+    if (obstacle.kind === 'pillar' || obstacle.kind === 'wall') {
+      drawBands(ctx, obstacle);
+    } else if (obstacle.kind === 'moving' && lit) {
+      drawMotionHint(ctx, obstacle);
+    }
+    if (lit && palette.outline) {
+      ctx.strokeStyle = palette.outline;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(obstacle.x + 1, obstacle.y + 1, obstacle.width - 2, obstacle.height - 2);
+    }
+  }
+  ctx.restore();
+}
+
+// Pickups only exist for the player once an echo has found them
+function drawPickup(ctx: CanvasRenderingContext2D, pickup: Pickup) {
+  if (!pickup.revealed || pickup.revealTimer <= 0) return;
+
+  const half = PICKUP_SIZE / 2;
+  const cx = pickup.x + half;
+  const cy = pickup.y + half;
+  const { color } = POWER_UPS[pickup.kind];
+  ctx.save();
+  ctx.globalAlpha = Math.min(1, pickup.revealTimer / REVEAL_FADE_MS);
+  ctx.fillStyle = color;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 16;
+  ctx.beginPath();
+  ctx.moveTo(cx, cy - half);
+  ctx.lineTo(cx + half, cy);
+  ctx.lineTo(cx, cy + half);
+  ctx.lineTo(cx - half, cy);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+}
+
+function drawEcho(ctx: CanvasRenderingContext2D, echo: Echo) {
+  if (echo.radius <= 0) return;
+
+  const { color } = ECHO_TYPES[echo.kind];
+  ctx.save();
+  ctx.globalAlpha = echo.opacity;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = Math.max(1, 3 - echo.radius / 30);
+  ctx.shadowColor = color;
+  ctx.shadowBlur = Math.min(echo.radius / 4, 30);
+  ctx.beginPath();
+  if (echo.spread >= Math.PI) {
+    ctx.arc(echo.x, echo.y, echo.radius, 0, Math.PI * 2);
+  } else {
+    ctx.arc(echo.x, echo.y, echo.radius, echo.direction - echo.spread, echo.direction + echo.spread);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Checkered band marking a level's finish line. Drawn over the darkness so
+// the goal is always in sight.
+function drawFinishLine(ctx: CanvasRenderingContext2D, x: number) {
+  const square = 10;
+  ctx.save();
+  ctx.globalAlpha = 0.5;
+  for (let row = 0; row * square < WORLD_HEIGHT; row++) {
+    for (let column = 0; column < 2; column++) {
+      ctx.fillStyle = (row + column) % 2 === 0 ? '#e5e7eb' : '#111827';
+      ctx.fillRect(x + column * square, row * square, square, square);
+    }
+  }
+  ctx.restore();
+}
+
+// Fog of war: clear around the player, nearly black further out
+function drawDarkness(ctx: CanvasRenderingContext2D, player: Position) {
+  const cx = player.x + PLAYER_SIZE / 2;
+  const cy = player.y + PLAYER_SIZE / 2;
+  const outer = 300;
+  const gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, outer);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(40 / outer, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(80 / outer, 'rgba(0, 0, 0, 0.3)');
+  gradient.addColorStop(150 / outer, 'rgba(0, 0, 0, 0.8)');
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0.95)');
+
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+}
+
+export function drawGame(ctx: CanvasRenderingContext2D, state: GameState, options: RenderOptions) {
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+  if (options.collisionFlash) {
+    ctx.fillStyle = options.palette.flash;
+    ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+  }
+
+  if (options.ghostY !== null) {
+    drawGhost(ctx, options.ghostY, options.palette);
+  }
+  drawPlayer(ctx, state.player, options.palette);
+  if (state.effects.shield) {
+    drawShield(ctx, state.player, state.time, options.reducedMotion);
+  }
+  if (!options.audioOnly) {
+    for (const pickup of state.pickups) {
+      drawPickup(ctx, pickup);
+    }
+    for (const obstacle of state.obstacles) {
+      if (obstacle.x < WORLD_WIDTH && obstacle.x + obstacle.width > 0) {
+        drawObstacle(ctx, obstacle, state.time, options);
+      }
+    }
+  }
+  for (const echo of state.echoes) {
+    drawEcho(ctx, echo);
+  }
+  drawDarkness(ctx, state.player);
+
+  const { level } = state.config;
+  if (level) {
+    const finishX = level.finishX - state.distance;
+    if (finishX < WORLD_WIDTH && finishX > -20) {
+      drawFinishLine(ctx, finishX);
+    }
+  }
+}
+
+export interface EditorView {
+  // Obstacles in view coordinates, fully lit
+  obstacles: Obstacle[];
+  selectedId: number | null;
+  // Course position at the left edge of the view
+  scroll: number;
+  finishX: number;
+}
+
+const EDITOR_GRID = 100;
+// Size of the resize handle on the selected obstacle's bottom right corner
+export const EDITOR_HANDLE = 8;
+
+// The level editor's view of a course: the same obstacles as in play, with
+// a distance grid, the player's lane and the selection drawn on top.
+export function drawEditor(ctx: CanvasRenderingContext2D, view: EditorView) {
+  ctx.fillStyle = '#030712';
+  ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+
+  ctx.save();
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+  ctx.font = '10px monospace';
+  for (let x = Math.ceil(view.scroll / EDITOR_GRID) * EDITOR_GRID; x < view.scroll + WORLD_WIDTH; x += EDITOR_GRID) {
+    ctx.beginPath();
+    ctx.moveTo(x - view.scroll, 0);
+    ctx.lineTo(x - view.scroll, WORLD_HEIGHT);
+    ctx.stroke();
+    ctx.fillText(String(x), x - view.scroll + 3, 12);
+  }
+  ctx.globalAlpha = 0.3;
+  drawPlayer(ctx, { x: PLAYER_X, y: WORLD_HEIGHT / 2 - PLAYER_SIZE / 2 }, EDITOR_STYLE.palette);
+  ctx.restore();
+
+  for (const obstacle of view.obstacles) {
+    if (obstacle.motion) {
+      // Swing range
+      ctx.fillStyle = 'rgba(249, 115, 22, 0.12)';
+      ctx.fillRect(
+        obstacle.x,
+        obstacle.motion.baseY - obstacle.motion.amplitude,
+        obstacle.width,
+        obstacle.height + 2 * obstacle.motion.amplitude
+      );
+    }
+    drawObstacle(ctx, obstacle, 0, EDITOR_STYLE);
+  }
+
+  const selected = view.obstacles.find(obstacle => obstacle.id === view.selectedId);
+  if (selected) {
+    ctx.save();
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 3]);
+    ctx.strokeRect(selected.x - 2, selected.y - 2, selected.width + 4, selected.height + 4);
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(
+      selected.x + selected.width - EDITOR_HANDLE / 2,
+      selected.y + selected.height - EDITOR_HANDLE / 2,
+      EDITOR_HANDLE,
+      EDITOR_HANDLE
+    );
+    ctx.restore();
+  }
+
+  const finishX = view.finishX - view.scroll;
+  if (finishX < WORLD_WIDTH && finishX > -20) {
+    drawFinishLine(ctx, finishX);
+  }
+}
@@ -0,0 +1,78 @@
+import type { ObstacleKind } from '../game/types';
+
+// Colors the canvas draws the course in. The alternatives to the standard
+// red-on-black follow the Okabe-Ito set, which stays distinct under the
+// common kinds of color blindness; every kind of obstacle also keeps its own
+// shape cue (bands, chevrons, dashes) so color is never the only signal.
+
+export type ColorPalette = 'standard' | 'redGreen' | 'blueYellow';
+
+export interface Palette {
+  player: string;
+  playerGlow: string;
+  obstacles: Record<ObstacleKind, { fill: string; glow: string }>;
+  // Tint over the course on a crash
+  flash: string;
+  // Lit obstacles at full reveal; unlit ones stay at the same faint level in every palette
+  revealedOpacity: number;
+  // Outline around the player and lit obstacles, in high contrast mode
+  outline: string | null;
+  // Soft glows blur edges, so high contrast turns them off
+  glow: boolean;
+}
+
+export const COLOR_PALETTES: ColorPalette[] = ['standard', 'redGreen', 'blueYellow'];
+
+const PALETTES: Record<ColorPalette, Palette> = {
+  // Tailwind palette values the DOM version used
+  standard: {
+    player: '#60a5fa',
+    playerGlow: 'rgba(59, 130, 246, 0.6)',
+    obstacles: {
+      block: { fill: '#ef4444', glow: 'rgba(239, 68, 68, 0.6)' },
+      moving: { fill: '#f97316', glow: 'rgba(249, 115, 22, 0.6)' },
+      pillar: { fill: '#dc2626', glow: 'rgba(220, 38, 38, 0.6)' },
+      wall: { fill: '#b91c1c', glow: 'rgba(185, 28, 28, 0.6)' },
+      phantom: { fill: '#a78bfa', glow: 'rgba(167, 139, 250, 0.6)' }
+    },
+    flash: 'rgba(239, 68, 68, 0.3)',
+    revealedOpacity: 0.8,
+    outline: null,
+    glow: true
+  },
+  redGreen: {
+    player: '#56b4e9',
+    playerGlow: 'rgba(86, 180, 233, 0.6)',
+    obstacles: {
+      block: { fill: '#e69f00', glow: 'rgba(230, 159, 0, 0.6)' },
+      moving: { fill: '#f0e442', glow: 'rgba(240, 228, 66, 0.6)' },
+      pillar: { fill: '#d55e00', glow: 'rgba(213, 94, 0, 0.6)' },
+      wall: { fill: '#009e73', glow: 'rgba(0, 158, 115, 0.6)' },
+      phantom: { fill: '#cc79a7', glow: 'rgba(204, 121, 167, 0.6)' }
+    },
+    flash: 'rgba(230, 159, 0, 0.3)',
+    revealedOpacity: 0.8,
+    outline: null,
+    glow: true
+  },
+  blueYellow: {
+    player: '#f0e442',
+    playerGlow: 'rgba(240, 228, 66, 0.5)',
+    obstacles: {
+      block: { fill: '#d55e00', glow: 'rgba(213, 94, 0, 0.6)' },
+      moving: { fill: '#cc79a7', glow: 'rgba(204, 121, 167, 0.6)' },
+      pillar: { fill: '#0072b2', glow: 'rgba(0, 114, 178, 0.6)' },
+      wall: { fill: '#e69f00', glow: 'rgba(230, 159, 0, 0.6)' },
+      phantom: { fill: '#999999', glow: 'rgba(153, 153, 153, 0.6)' }
+    },
+    flash: 'rgba(213, 94, 0, 0.3)',
+    revealedOpacity: 0.8,
+    outline: null,
+    glow: true
+  }
+};
+
+export function getPalette(name: ColorPalette, highContrast = false): Palette {
+  const palette = PALETTES[name];
+  return highContrast ? { ...palette, revealedOpacity: 1, outline: '#ffffff', glow: false } : palette;
+}
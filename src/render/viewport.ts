@@ -0,0 +1,27 @@
+import { WORLD_HEIGHT, WORLD_WIDTH } from '../game/constants';
+
+// Where the world sits inside a screen area, in CSS pixels
+export interface Viewport {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Largest aspect-preserving fit of the world into the area, centred with
+// letterbox bars on the spare axis.
+export function fitViewport(width: number, height: number): Viewport {
+  const scale = Math.min(width / WORLD_WIDTH, height / WORLD_HEIGHT);
+  return {
+    scale,
+    offsetX: (width - WORLD_WIDTH * scale) / 2,
+    offsetY: (height - WORLD_HEIGHT * scale) / 2
+  };
+}
+
+// World coordinates of a point given relative to the screen area's top left
+export function screenToWorld(viewport: Viewport, x: number, y: number): { x: number; y: number } {
+  return {
+    x: (x - viewport.offsetX) / viewport.scale,
+    y: (y - viewport.offsetY) / viewport.scale
+  };
+}
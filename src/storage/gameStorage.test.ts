@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DIFFICULTY_SETTINGS } from '../game/constants';
+import { SIMULATION_VERSION } from '../game/engine';
+import { DEFAULT_KEY_BINDINGS } from '../input/InputManager';
+import { DEFAULT_SETTINGS, HIGH_SCORE_LIMIT, load, save } from './gameStorage';
+
+// Just enough of localStorage for load and save
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  };
+}
+
+const store = (name: string, value: unknown) => localStorage.setItem(name, JSON.stringify(value));
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('load', () => {
+  it('falls back when nothing is stored or it is unreadable', () => {
+    expect(load('highScores')).toEqual([]);
+    localStorage.setItem('echoRunnerHighScores', '{not json');
+    expect(load('highScores')).toEqual([]);
+  });
+
+  it('reads back what save wrote', () => {
+    const settings = { ...DEFAULT_SETTINGS, difficulty: 'hard' as const, volume: 0.3 };
+    expect(save('settings', settings)).toBe(true);
+    expect(load('settings')).toEqual(settings);
+  });
+
+  it('migrates version 0 high scores and their locale dates', () => {
+    // Saved before values were wrapped with a version
+    store('echoRunnerHighScores', [
+      { score: 120, difficulty: 'easy', gameMode: 'limited', date: '3/14/2024' },
+      { score: 300, difficulty: 'medium', gameMode: 'infinite', date: 'not a date' }
+    ]);
+
+    const scores = load('highScores');
+    expect(scores.map(score => score.score)).toEqual([300, 120]);
+    expect(scores[1].date).toBe(new Date('3/14/2024').toISOString());
+    expect(scores[0].date).toBeUndefined();
+  });
+
+  it("ignores data from a newer version it can't understand", () => {
+    store('echoRunnerHighScores', { version: 99, data: [{ score: 1, difficulty: 'easy', gameMode: 'limited' }] });
+    expect(load('highScores')).toEqual([]);
+  });
+
+  it('drops invalid high scores and keeps the top of each leaderboard', () => {
+    const entry = (score: number, audioOnly?: boolean) => ({ score, difficulty: 'easy', gameMode: 'limited', audioOnly });
+    store('echoRunnerHighScores', {
+      version: 1,
+      data: [
+        { score: 'lots', difficulty: 'easy', gameMode: 'limited' },
+        { score: 5, difficulty: 'impossible', gameMode: 'limited' },
+        ...Array.from({ length: HIGH_SCORE_LIMIT + 2 }, (_, i) => entry(i)),
+        entry(1, true)
+      ]
+    });
+
+    const scores = load('highScores');
+    expect(scores.filter(score => !score.audioOnly)).toHaveLength(HIGH_SCORE_LIMIT);
+    expect(scores.filter(score => score.audioOnly)).toHaveLength(1);
+    expect(scores[0].score).toBe(HIGH_SCORE_LIMIT + 1);
+  });
+
+  it('drops replays recorded by a different simulation', () => {
+    const replay = { version: 3, seed: 1, difficulty: 'easy', gameMode: 'limited', ticks: 1, inputs: '4' };
+    store('echoRunnerHighScores', {
+      version: 1,
+      data: [
+        { score: 2, difficulty: 'easy', gameMode: 'limited', replay: { ...replay, simulationVersion: SIMULATION_VERSION } },
+        { score: 1, difficulty: 'easy', gameMode: 'limited', replay: { ...replay, simulationVersion: SIMULATION_VERSION - 1 } },
+        // Before simulation versions were saved
+        { score: 0, difficulty: 'easy', gameMode: 'limited', replay: { ...replay, version: 2 } }
+      ]
+    });
+
+    const [current, old, legacy] = load('highScores');
+    expect(current.replay?.simulationVersion).toBe(SIMULATION_VERSION);
+    expect(old.replay).toBeUndefined();
+    expect(legacy.replay).toBeUndefined();
+  });
+
+  it('repairs settings field by field', () => {
+    store('echoRunnerSettings', {
+      version: 1,
+      data: {
+        difficulty: 'hard',
+        gameMode: 'levels',
+        volume: 4,
+        language: 'klingon',
+        keyBindings: { up: ['KeyI'], down: [] },
+        customDifficulty: { ...DIFFICULTY_SETTINGS.easy, echoCount: 99 },
+        customPresets: [{ name: 'Slow', settings: DIFFICULTY_SETTINGS.easy }, { name: 'Broken', settings: {} }]
+      }
+    });
+
+    const settings = load('settings');
+    expect(settings.difficulty).toBe('hard');
+    // Levels are picked from the level select, never as the default mode
+    expect(settings.gameMode).toBe(DEFAULT_SETTINGS.gameMode);
+    expect(settings.volume).toBe(1);
+    expect(settings.language).toBe('auto');
+    expect(settings.keyBindings.up).toEqual(['KeyI']);
+    expect(settings.keyBindings.down).toEqual(DEFAULT_KEY_BINDINGS.down);
+    expect(settings.customDifficulty).toEqual(DEFAULT_SETTINGS.customDifficulty);
+    expect(settings.customPresets).toEqual([{ name: 'Slow', settings: DIFFICULTY_SETTINGS.easy }]);
+  });
+});
+
+describe('save', () => {
+  it('reports storage that refuses the write', () => {
+    vi.stubGlobal('localStorage', {
+      ...memoryStorage(),
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      }
+    });
+    expect(save('highScores', [])).toBe(false);
+  });
+});
@@ -0,0 +1,374 @@
+// Everything the game keeps in localStorage goes through here. Each entry is
+// stored as { version, data }; older versions are migrated forward on load,
+// and anything unreadable or invalid falls back to a safe default instead of
+// reaching the UI. Timestamps are ISO 8601 strings.
+
+import { DIFFICULTY_SETTINGS } from '../game/constants';
+import { DIFFICULTY_PRESETS, validateDifficultySettings } from '../game/difficulty';
+import type { CustomDifficultyPreset } from '../game/difficulty';
+import { ACHIEVEMENTS, NO_ACHIEVEMENT_PROGRESS } from '../game/achievements';
+import { SIMULATION_VERSION } from '../game/engine';
+import type { AchievementId, AchievementProgress } from '../game/achievements';
+import type { Ghost } from '../game/ghost';
+import { OBSTACLE_KINDS, parseLevel } from '../game/levels';
+import type { Level, LevelRecord } from '../game/levels';
+import { REPLAY_VERSION } from '../game/replay';
+import type { Replay } from '../game/replay';
+import type { RunRecord } from '../game/stats';
+import type { Difficulty, DifficultySettings, GameMode, ObstacleKind } from '../game/types';
+import { LOCALES } from '../i18n';
+import type { Locale } from '../i18n';
+import { BINDABLE_ACTIONS, DEFAULT_KEY_BINDINGS } from '../input/InputManager';
+import type { KeyBindings } from '../input/InputManager';
+import { COLOR_PALETTES } from '../render/palettes';
+import type { ColorPalette } from '../render/palettes';
+
+export interface GameSettings {
+  difficulty: Difficulty;
+  gameMode: GameMode;
+  soundEnabled: boolean;
+  volume: number;
+  // Echoes light up only the faces they hit, as a silhouette
+  partialReveal: boolean;
+  // Race a ghost of the best run on the same difficulty and mode
+  showGhost: boolean;
+  colorPalette: ColorPalette;
+  highContrast: boolean;
+  // No crash flash, pulsing or zooming
+  reducedMotion: boolean;
+  // Obstacles are never drawn and only heard through their echoes
+  audioOnly: boolean;
+  // 'auto' follows the browser's languages, resolved each time the game loads
+  language: Locale | 'auto';
+  keyBindings: KeyBindings;
+  // Values used when difficulty is 'custom'
+  customDifficulty: DifficultySettings;
+  customPresets: CustomDifficultyPreset[];
+}
+
+export interface HighScore {
+  score: number;
+  difficulty: Difficulty;
+  // Parameters of a custom difficulty run
+  customSettings?: DifficultySettings;
+  gameMode: GameMode;
+  // ISO 8601; missing when an old locale-formatted date couldn't be read
+  date?: string;
+  // Course seed; missing on scores saved before seeded runs existed
+  seed?: number;
+  // UTC date key of the daily challenge this score was set in
+  daily?: string;
+  replay?: Replay;
+  // Vertical path of the run, kept only on the best score of its difficulty and mode
+  ghost?: Ghost;
+  // Audio-only runs have a leaderboard of their own
+  audioOnly?: boolean;
+}
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  difficulty: 'medium',
+  gameMode: 'limited',
+  soundEnabled: true,
+  volume: 0.7,
+  partialReveal: false,
+  showGhost: true,
+  colorPalette: 'standard',
+  highContrast: false,
+  // Follows the system setting until the player picks one
+  reducedMotion: typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches,
+  audioOnly: false,
+  language: 'auto',
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  customDifficulty: DIFFICULTY_SETTINGS.medium,
+  customPresets: []
+};
+
+// Scores kept on each leaderboard
+export const HIGH_SCORE_LIMIT = 10;
+
+// Best first, keeping the top HIGH_SCORE_LIMIT of the visual and the
+// audio-only leaderboards each
+export function rankHighScores(scores: HighScore[]): HighScore[] {
+  const sorted = [...scores].sort((a, b) => b.score - a.score);
+  const visual = sorted.filter(score => !score.audioOnly).slice(0, HIGH_SCORE_LIMIT);
+  const audioOnly = sorted.filter(score => score.audioOnly).slice(0, HIGH_SCORE_LIMIT);
+  return sorted.filter(score => visual.includes(score) || audioOnly.includes(score));
+}
+
+// What each entry holds once loaded
+export interface StoredData {
+  settings: GameSettings;
+  highScores: HighScore[];
+  levelRecords: Record<string, LevelRecord>;
+  levelDraft: Level | null;
+  runHistory: RunRecord[];
+  achievements: AchievementProgress;
+}
+
+export type StorageKey = keyof StoredData;
+
+interface Schema<T> {
+  // localStorage key
+  name: string;
+  version: number;
+  // migrations[n] turns version n data into version n + 1. Version 0 is
+  // whatever was stored before values were wrapped with a version.
+  migrations: Record<number, (data: unknown) => unknown>;
+  // The value in its current shape, repaired where it can be, or null
+  validate: (data: unknown) => T | null;
+  fallback: () => T;
+}
+
+type Fields = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Fields => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const GAME_MODES: GameMode[] = ['limited', 'infinite', 'levels'];
+const isDifficulty = (value: unknown): value is Difficulty =>
+  value === 'custom' || DIFFICULTY_PRESETS.includes(value as never);
+const isGameMode = (value: unknown): value is GameMode => GAME_MODES.includes(value as GameMode);
+
+// Keeps the entries that validate and drops the rest
+function validList<T>(data: unknown, validate: (item: unknown) => T | null): T[] | null {
+  if (!Array.isArray(data)) return null;
+  return data.map(validate).filter((item): item is T => item !== null);
+}
+
+// Reads a locale date string written by older versions as ISO, if possible
+function toIsoDate(value: unknown): string | undefined {
+  if (!isString(value)) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function validateKeyBindings(data: unknown): KeyBindings {
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  if (!isRecord(data)) return bindings;
+  for (const action of BINDABLE_ACTIONS) {
+    const codes = data[action];
+    if (Array.isArray(codes) && codes.length > 0 && codes.every(isString)) {
+      bindings[action] = codes;
+    }
+  }
+  return bindings;
+}
+
+// Field by field, so one bad value doesn't cost the player all their settings
+function validateSettings(data: unknown): GameSettings | null {
+  if (!isRecord(data)) return null;
+  const defaults = DEFAULT_SETTINGS;
+  return {
+    difficulty: isDifficulty(data.difficulty) ? data.difficulty : defaults.difficulty,
+    gameMode: isGameMode(data.gameMode) && data.gameMode !== 'levels' ? data.gameMode : defaults.gameMode,
+    soundEnabled: typeof data.soundEnabled === 'boolean' ? data.soundEnabled : defaults.soundEnabled,
+    volume: isNumber(data.volume) ? Math.min(1, Math.max(0, data.volume)) : defaults.volume,
+    partialReveal: typeof data.partialReveal === 'boolean' ? data.partialReveal : defaults.partialReveal,
+    showGhost: typeof data.showGhost === 'boolean' ? data.showGhost : defaults.showGhost,
+    colorPalette: COLOR_PALETTES.includes(data.colorPalette as ColorPalette) ? data.colorPalette as ColorPalette : defaults.colorPalette,
+    highContrast: typeof data.highContrast === 'boolean' ? data.highContrast : defaults.highContrast,
+    reducedMotion: typeof data.reducedMotion === 'boolean' ? data.reducedMotion : defaults.reducedMotion,
+    audioOnly: typeof data.audioOnly === 'boolean' ? data.audioOnly : defaults.audioOnly,
+    language: LOCALES.includes(data.language as Locale) ? data.language as Locale : defaults.language,
+    keyBindings: validateKeyBindings(data.keyBindings),
+    customDifficulty: validateDifficultySettings(data.customDifficulty).settings ?? defaults.customDifficulty,
+    customPresets: validList(data.customPresets, preset => {
+      if (!isRecord(preset) || !isString(preset.name)) return null;
+      const settings = validateDifficultySettings(preset.settings).settings;
+      return settings ? { name: preset.name, settings } : null;
+    }) ?? []
+  };
+}
+
+function validateReplay(data: unknown): Replay | undefined {
+  if (!isRecord(data)) return undefined;
+  const { version, simulationVersion, seed, difficulty, customSettings, gameMode, ticks, inputs } = data;
+  if (!isNumber(seed) || !isDifficulty(difficulty) || !isGameMode(gameMode) || !isNumber(ticks) || !isString(inputs)) {
+    return undefined;
+  }
+  // Recorded by a different engine (or one from before the version was
+  // saved), so the inputs would play out a different run
+  if (version !== REPLAY_VERSION || simulationVersion !== SIMULATION_VERSION) return undefined;
+  return {
+    version,
+    simulationVersion,
+    seed,
+    difficulty,
+    customSettings: validateDifficultySettings(customSettings).settings ?? undefined,
+    gameMode,
+    ticks,
+    inputs
+  };
+}
+
+function validateGhost(data: unknown): Ghost | undefined {
+  if (!isRecord(data) || !isNumber(data.sampleMs) || data.sampleMs <= 0 || !isString(data.path)) return undefined;
+  return { sampleMs: data.sampleMs, path: data.path };
+}
+
+function validateHighScore(data: unknown): HighScore | null {
+  if (!isRecord(data) || !isNumber(data.score) || !isDifficulty(data.difficulty) || !isGameMode(data.gameMode)) {
+    return null;
+  }
+  return {
+    score: data.score,
+    difficulty: data.difficulty,
+    customSettings: validateDifficultySettings(data.customSettings).settings ?? undefined,
+    gameMode: data.gameMode,
+    date: isString(data.date) && !Number.isNaN(Date.parse(data.date)) ? data.date : undefined,
+    seed: isNumber(data.seed) ? data.seed : undefined,
+    daily: isString(data.daily) ? data.daily : undefined,
+    replay: validateReplay(data.replay),
+    ghost: validateGhost(data.ghost),
+    audioOnly: data.audioOnly === true ? true : undefined
+  };
+}
+
+function validateLevelRecords(data: unknown): Record<string, LevelRecord> | null {
+  if (!isRecord(data)) return null;
+  const records: Record<string, LevelRecord> = {};
+  for (const [id, record] of Object.entries(data)) {
+    if (!isRecord(record) || !isNumber(record.completions) || record.completions < 0) continue;
+    records[id] = {
+      completions: Math.floor(record.completions),
+      bestTimeMs: isNumber(record.bestTimeMs) ? record.bestTimeMs : null
+    };
+  }
+  return records;
+}
+
+function validateRunRecord(data: unknown): RunRecord | null {
+  if (!isRecord(data) || !isString(data.date) || !isGameMode(data.mode) || !isDifficulty(data.difficulty)) return null;
+  if (!isNumber(data.score) || !isRecord(data.stats)) return null;
+
+  const stats = data.stats;
+  const pingsUsed = isRecord(stats.pingsUsed) ? stats.pingsUsed : {};
+  const count = (value: unknown) => (isNumber(value) ? value : 0);
+  return {
+    date: data.date,
+    mode: data.mode,
+    difficulty: data.difficulty,
+    customSettings: validateDifficultySettings(data.customSettings).settings ?? undefined,
+    levelId: isString(data.levelId) ? data.levelId : undefined,
+    audioOnly: data.audioOnly === true ? true : undefined,
+    score: data.score,
+    stats: {
+      distance: count(stats.distance),
+      durationMs: count(stats.durationMs),
+      pingsUsed: { ping: count(pingsUsed.ping), cone: count(pingsUsed.cone), pulse: count(pingsUsed.pulse) },
+      obstaclesRevealed: count(stats.obstaclesRevealed),
+      obstaclesUnseen: count(stats.obstaclesUnseen),
+      nearMisses: count(stats.nearMisses),
+      peakSpeed: count(stats.peakSpeed),
+      causeOfDeath: OBSTACLE_KINDS.includes(stats.causeOfDeath as ObstacleKind) ? (stats.causeOfDeath as ObstacleKind) : null
+    }
+  };
+}
+
+function validateAchievements(data: unknown): AchievementProgress | null {
+  if (!isRecord(data)) return null;
+  const progress: AchievementProgress['progress'] = {};
+  const unlocked: AchievementProgress['unlocked'] = {};
+  const saved = { progress: isRecord(data.progress) ? data.progress : {}, unlocked: isRecord(data.unlocked) ? data.unlocked : {} };
+  for (const { id } of ACHIEVEMENTS) {
+    const value = saved.progress[id];
+    if (isNumber(value)) progress[id as AchievementId] = value;
+    const date = saved.unlocked[id];
+    if (isString(date) && !Number.isNaN(Date.parse(date))) unlocked[id] = date;
+  }
+  return { progress, unlocked };
+}
+
+const SCHEMAS: { [K in StorageKey]: Schema<StoredData[K]> } = {
+  settings: {
+    name: 'echoRunnerSettings',
+    version: 1,
+    migrations: {},
+    validate: validateSettings,
+    fallback: () => DEFAULT_SETTINGS
+  },
+  highScores: {
+    name: 'echoRunnerHighScores',
+    version: 1,
+    migrations: {
+      // Dates were saved with toLocaleDateString
+      0: data => (Array.isArray(data) ? data.map(entry => (isRecord(entry) ? { ...entry, date: toIsoDate(entry.date) } : entry)) : data)
+    },
+    validate: data => {
+      const scores = validList(data, validateHighScore);
+      return scores && rankHighScores(scores);
+    },
+    fallback: () => []
+  },
+  levelRecords: {
+    name: 'echoRunnerLevelRecords',
+    version: 1,
+    migrations: {},
+    validate: validateLevelRecords,
+    fallback: () => ({})
+  },
+  levelDraft: {
+    name: 'echoRunnerLevelDraft',
+    version: 1,
+    migrations: {},
+    validate: data => {
+      const result = parseLevel(data);
+      return 'level' in result ? result.level : null;
+    },
+    fallback: () => null
+  },
+  runHistory: {
+    name: 'echoRunnerRunHistory',
+    version: 1,
+    migrations: {},
+    validate: data => validList(data, validateRunRecord),
+    fallback: () => []
+  },
+  achievements: {
+    name: 'echoRunnerAchievements',
+    version: 1,
+    migrations: {},
+    validate: validateAchievements,
+    fallback: () => NO_ACHIEVEMENT_PROGRESS
+  }
+};
+
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+const isEnvelope = (value: unknown): value is Envelope =>
+  isRecord(value) && isNumber(value.version) && 'data' in value && Object.keys(value).length === 2;
+
+export function load<K extends StorageKey>(key: K): StoredData[K] {
+  const schema: Schema<StoredData[K]> = SCHEMAS[key];
+  try {
+    const raw = localStorage.getItem(schema.name);
+    if (raw === null) return schema.fallback();
+
+    const parsed: unknown = JSON.parse(raw);
+    let { version, data } = isEnvelope(parsed) ? parsed : { version: 0, data: parsed };
+    // Written by a newer version of the game; don't guess at it
+    if (version > schema.version) return schema.fallback();
+    for (; version < schema.version; version++) {
+      const migrate = schema.migrations[version];
+      if (migrate) data = migrate(data);
+    }
+    return schema.validate(data) ?? schema.fallback();
+  } catch {
+    // Unreadable JSON, or storage blocked by the browser
+    return schema.fallback();
+  }
+}
+
+// Returns whether the value was written; storage can be full or blocked
+export function save<K extends StorageKey>(key: K, data: StoredData[K]): boolean {
+  const schema = SCHEMAS[key];
+  try {
+    localStorage.setItem(schema.name, JSON.stringify({ version: schema.version, data }));
+    return true;
+  } catch {
+    return false;
+  }
+}